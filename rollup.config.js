@@ -2,7 +2,7 @@ import babel from '@rollup/plugin-babel';
 import ts from 'rollup-plugin-ts';
 
 export default {
-  input: 'src/index.ts',
+  input: ['src/index.ts', 'src/testing.ts'],
   output: {
     dir: 'dist',
     format: 'es'
@@ -15,11 +15,16 @@ export default {
   ],
   external: [
     '@codemirror/autocomplete',
+    '@codemirror/language',
     '@codemirror/lint',
     '@codemirror/state',
     '@codemirror/tooltip',
     '@codemirror/view',
+    '@lezer/common',
+    '@lezer/highlight',
+    '@lezer/markdown',
     '@open-rpc/client-js',
+    /^@open-rpc\/client-js\//,
     'vscode-languageserver-protocol'
   ]
 };
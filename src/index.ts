@@ -1,16 +1,57 @@
-import { autocompletion } from '@codemirror/autocomplete';
+import {
+    autocompletion,
+    completionStatus,
+    insertCompletionText,
+    pickedCompletion,
+    snippet,
+} from '@codemirror/autocomplete';
 import { setDiagnostics } from '@codemirror/lint';
-import { Facet } from '@codemirror/state';
-import { EditorView, ViewPlugin, Tooltip, hoverTooltip } from '@codemirror/view';
+import {
+    codeFolding,
+    foldEffect,
+    foldService,
+    foldedRanges,
+    getIndentUnit,
+    highlightingFor,
+    indentUnit,
+    language,
+} from '@codemirror/language';
+import { ChangeSet, Facet, RangeSetBuilder, StateEffect, StateField } from '@codemirror/state';
+import {
+    Decoration,
+    EditorView,
+    ViewPlugin,
+    Tooltip,
+    hoverTooltip,
+    keymap,
+    showPanel,
+    showTooltip,
+    WidgetType,
+} from '@codemirror/view';
 import {
     RequestManager,
     Client,
+    JSONRPCError,
     WebSocketTransport,
 } from '@open-rpc/client-js';
 import {
     DiagnosticSeverity,
+    DiagnosticTag,
+    DocumentDiagnosticReportKind,
     CompletionItemKind,
+    CompletionItemTag,
+    ErrorCodes,
     CompletionTriggerKind,
+    DocumentHighlightKind,
+    FoldingRangeKind,
+    InlayHintKind,
+    InsertTextFormat,
+    SignatureHelpTriggerKind,
+    SymbolKind,
+    LSPErrorCodes,
+    TextDocumentSaveReason,
+    MessageType,
+    TextDocumentSyncKind,
 } from 'vscode-languageserver-protocol';
 
 import type {
@@ -18,19 +59,46 @@ import type {
     CompletionContext,
     CompletionResult,
 } from '@codemirror/autocomplete';
+import type { Diagnostic as LintDiagnostic } from '@codemirror/lint';
+import type { ChangeDesc, EditorState, Extension } from '@codemirror/state';
 import type { PublishDiagnosticsParams } from 'vscode-languageserver-protocol';
-import type { ViewUpdate, PluginValue } from '@codemirror/view';
+import type {
+    ViewUpdate,
+    PluginValue,
+    Panel,
+    Command,
+    KeyBinding,
+    DecorationSet,
+} from '@codemirror/view';
 import { Text } from '@codemirror/state';
 import type * as LSP from 'vscode-languageserver-protocol';
-import { Transport } from '@open-rpc/client-js/build/transports/Transport';
+import { highlightCode } from '@lezer/highlight';
+import { GFM, parser as markdownParser } from '@lezer/markdown';
+import type { Language } from '@codemirror/language';
+import type { SyntaxNode } from '@lezer/common';
+import type { Highlighter } from '@lezer/highlight';
+import { ERR_UNKNOWN } from '@open-rpc/client-js/build/Error.js';
+import { getNotifications } from '@open-rpc/client-js/build/Request.js';
+import { Transport } from '@open-rpc/client-js/build/transports/Transport.js';
+import type { IJSONRPCRequest, JSONRPCRequestData } from '@open-rpc/client-js/build/Request';
+import type { TransportResponse } from '@open-rpc/client-js/build/transports/Transport';
 
 const timeout = 10000;
 const changesDelay = 500;
+const highlightDelay = 250;
+const reconnectDelay = 1000;
+const maxReconnectDelay = 30000;
+const logSize = 1000;
+const maxMessages = 5;
 
 const CompletionItemKindMap = Object.fromEntries(
     Object.entries(CompletionItemKind).map(([key, value]) => [value, key])
 ) as Record<CompletionItemKind, string>;
 
+const SymbolKindMap = Object.fromEntries(
+    Object.entries(SymbolKind).map(([key, value]) => [value, key])
+) as Record<SymbolKind, string>;
+
 const useLast = (values: readonly any[]) => values.reduce((_, v) => v, '');
 
 const client = Facet.define<LanguageServerClient, LanguageServerClient>({ combine: useLast });
@@ -38,29 +106,239 @@ const documentUri = Facet.define<string, string>({ combine: useLast });
 const languageId = Facet.define<string, string>({ combine: useLast });
 const prefix = Facet.define<Text, Text>({ combine: useLast });
 const suffix = Facet.define<Text, Text>({ combine: useLast });
+const virtualRegion = Facet.define<VirtualRegion, VirtualRegion | null>({
+    combine: (regions) => regions[regions.length - 1] ?? null,
+});
 
 // https://microsoft.github.io/language-server-protocol/specifications/specification-current/
 
 // Client to server then server to client
-interface LSPRequestMap {
+export interface LSPRequestMap {
     initialize: [LSP.InitializeParams, LSP.InitializeResult];
+    shutdown: [null, null];
     'textDocument/hover': [LSP.HoverParams, LSP.Hover];
     'textDocument/completion': [
         LSP.CompletionParams,
         LSP.CompletionItem[] | LSP.CompletionList | null
     ];
+    'completionItem/resolve': [LSP.CompletionItem, LSP.CompletionItem];
+    'textDocument/willSaveWaitUntil': [LSP.WillSaveTextDocumentParams, LSP.TextEdit[] | null];
+    'textDocument/signatureHelp': [LSP.SignatureHelpParams, LSP.SignatureHelp | null];
+    'textDocument/definition': [LSP.DefinitionParams, LocationResult];
+    'textDocument/declaration': [LSP.DeclarationParams, LocationResult];
+    'textDocument/typeDefinition': [LSP.TypeDefinitionParams, LocationResult];
+    'textDocument/implementation': [LSP.ImplementationParams, LocationResult];
+    'textDocument/codeAction': [LSP.CodeActionParams, (LSP.Command | LSP.CodeAction)[] | null];
+    'codeAction/resolve': [LSP.CodeAction, LSP.CodeAction];
+    'workspace/executeCommand': [LSP.ExecuteCommandParams, LSP.LSPAny];
+    'textDocument/prepareRename': [LSP.PrepareRenameParams, PrepareRenameResult];
+    'textDocument/rename': [LSP.RenameParams, LSP.WorkspaceEdit | null];
+    'textDocument/formatting': [LSP.DocumentFormattingParams, LSP.TextEdit[] | null];
+    'textDocument/rangeFormatting': [LSP.DocumentRangeFormattingParams, LSP.TextEdit[] | null];
+    'textDocument/onTypeFormatting': [LSP.DocumentOnTypeFormattingParams, LSP.TextEdit[] | null];
+    'textDocument/documentHighlight': [LSP.DocumentHighlightParams, LSP.DocumentHighlight[] | null];
+    'textDocument/references': [LSP.ReferenceParams, LSP.Location[] | null];
+    'textDocument/prepareCallHierarchy': [LSP.CallHierarchyPrepareParams, LSP.CallHierarchyItem[] | null];
+    'callHierarchy/incomingCalls': [
+        LSP.CallHierarchyIncomingCallsParams,
+        LSP.CallHierarchyIncomingCall[] | null
+    ];
+    'callHierarchy/outgoingCalls': [
+        LSP.CallHierarchyOutgoingCallsParams,
+        LSP.CallHierarchyOutgoingCall[] | null
+    ];
+    'textDocument/prepareTypeHierarchy': [LSP.TypeHierarchyPrepareParams, LSP.TypeHierarchyItem[] | null];
+    'typeHierarchy/supertypes': [LSP.TypeHierarchySupertypesParams, LSP.TypeHierarchyItem[] | null];
+    'typeHierarchy/subtypes': [LSP.TypeHierarchySubtypesParams, LSP.TypeHierarchyItem[] | null];
+    'textDocument/documentSymbol': [
+        LSP.DocumentSymbolParams,
+        LSP.DocumentSymbol[] | LSP.SymbolInformation[] | null
+    ];
+    'workspace/symbol': [LSP.WorkspaceSymbolParams, LSP.SymbolInformation[] | null];
+    'textDocument/inlayHint': [LSP.InlayHintParams, LSP.InlayHint[] | null];
+    'textDocument/diagnostic': [LSP.DocumentDiagnosticParams, LSP.DocumentDiagnosticReport];
+    'textDocument/foldingRange': [LSP.FoldingRangeParams, LSP.FoldingRange[] | null];
+    'inlayHint/resolve': [LSP.InlayHint, LSP.InlayHint];
+    'textDocument/semanticTokens/full': [LSP.SemanticTokensParams, LSP.SemanticTokens | null];
+    'textDocument/semanticTokens/full/delta': [
+        LSP.SemanticTokensDeltaParams,
+        LSP.SemanticTokens | LSP.SemanticTokensDelta | null
+    ];
 }
 
+type PrepareRenameResult =
+    | LSP.Range
+    | { range: LSP.Range; placeholder: string }
+    | { defaultBehavior: boolean }
+    | null;
+
+type LocationResult = LSP.Location | LSP.Location[] | LSP.LocationLink[] | null;
+
+// Requests that resolve the location(s) of the symbol at a position
+type NavigationMethod =
+    | 'textDocument/definition'
+    | 'textDocument/declaration'
+    | 'textDocument/typeDefinition'
+    | 'textDocument/implementation';
+
+const NavigationProviderMap: Record<NavigationMethod, keyof LSP.ServerCapabilities> = {
+    'textDocument/definition': 'definitionProvider',
+    'textDocument/declaration': 'declarationProvider',
+    'textDocument/typeDefinition': 'typeDefinitionProvider',
+    'textDocument/implementation': 'implementationProvider',
+};
+
 // Client to server
-interface LSPNotifyMap {
+export interface LSPNotifyMap {
     initialized: LSP.InitializedParams;
+    exit: null;
+    '$/cancelRequest': { id: number | string };
     'textDocument/didChange': LSP.DidChangeTextDocumentParams;
     'textDocument/didOpen': LSP.DidOpenTextDocumentParams;
+    'textDocument/didClose': LSP.DidCloseTextDocumentParams;
+    'textDocument/willSave': LSP.WillSaveTextDocumentParams;
+    'textDocument/didSave': LSP.DidSaveTextDocumentParams;
+    'workspace/didChangeConfiguration': LSP.DidChangeConfigurationParams;
+    'window/workDoneProgress/cancel': LSP.WorkDoneProgressCancelParams;
+}
+
+// Server to client, expecting a response
+export interface LSPServerRequestMap {
+    'client/registerCapability': [LSP.RegistrationParams, void];
+    'client/unregisterCapability': [LSP.UnregistrationParams, void];
+    'workspace/configuration': [LSP.ConfigurationParams, LSP.LSPAny[]];
+    'workspace/applyEdit': [LSP.ApplyWorkspaceEditParams, LSP.ApplyWorkspaceEditResponse];
+    'window/showMessageRequest': [LSP.ShowMessageRequestParams, LSP.MessageActionItem | null];
+    'workspace/semanticTokens/refresh': [null, null];
+    'workspace/inlayHint/refresh': [null, null];
+    'workspace/diagnostic/refresh': [null, null];
+    'window/workDoneProgress/create': [LSP.WorkDoneProgressCreateParams, null];
+}
+
+type ServerRequestHandler<K extends keyof LSPServerRequestMap> = (
+    params: LSPServerRequestMap[K][0]
+) => LSPServerRequestMap[K][1] | Promise<LSPServerRequestMap[K][1]>;
+
+type ServerRequest = {
+    jsonrpc: '2.0';
+    id: number | string;
+    method: string;
+    params?: LSP.LSPAny;
+};
+
+type ServerResponse = {
+    jsonrpc: '2.0';
+    id: number | string;
+    result?: LSP.LSPAny;
+    error?: { code: number; message: string };
+};
+
+// Where requests from the server come from, and their responses go
+interface ServerRequestChannel {
+    onRequest(handler: (request: ServerRequest) => void): void;
+    sendResponse(response: ServerResponse): void;
+}
+
+function isServerRequest(message: unknown): message is ServerRequest {
+    const data = message as Partial<ServerRequest> | null;
+    return !!data && typeof data.method === 'string' && data.id !== undefined && data.id !== null;
+}
+
+// Handles requests from the server for open-rpc transports other than this
+// package's own, which only surface responses and notifications. Requests
+// are picked out of the incoming messages before the transport sees them, and
+// responses are sent as if they were requests. open-rpc keeps these parts
+// private, so they are typed here as of the version this package depends on.
+class TransportAdapter implements ServerRequestChannel {
+    private requestManager: {
+        resolveResponse(payload: string, emitError?: boolean): TransportResponse;
+        pendingRequest: Record<string, unknown>;
+    };
+
+    constructor(private transport: Transport) {
+        this.requestManager = (transport as unknown as {
+            transportRequestManager: TransportAdapter['requestManager'];
+        }).transportRequestManager;
+    }
+
+    onRequest(handler: (request: ServerRequest) => void) {
+        const resolveResponse = this.requestManager.resolveResponse.bind(this.requestManager);
+        this.requestManager.resolveResponse = (payload, emitError) => {
+            let data: unknown;
+            try {
+                data = typeof payload === 'string' ? JSON.parse(payload) : payload;
+            } catch (e) {
+                return resolveResponse(payload, emitError);
+            }
+            if (isServerRequest(data)) {
+                handler(data);
+                return undefined;
+            }
+            return resolveResponse(payload, emitError);
+        };
+    }
+
+    sendResponse(response: ServerResponse) {
+        const internalID = `response:${response.id}`;
+        const request = response as unknown as IJSONRPCRequest;
+        this.transport.sendData({ internalID, request }, null).catch((e) => console.error(e));
+        // Nothing ever answers a response, so it must not be left pending
+        delete this.requestManager.pendingRequest[internalID];
+    }
 }
 
+// Capabilities that servers may register dynamically, by request method
+const RegistrationCapabilityMap: Record<string, keyof LSP.ServerCapabilities> = {
+    'textDocument/didChange': 'textDocumentSync',
+    'textDocument/willSave': 'textDocumentSync',
+    'textDocument/willSaveWaitUntil': 'textDocumentSync',
+    'textDocument/didSave': 'textDocumentSync',
+    'textDocument/hover': 'hoverProvider',
+    'textDocument/completion': 'completionProvider',
+    'textDocument/signatureHelp': 'signatureHelpProvider',
+    'textDocument/definition': 'definitionProvider',
+    'textDocument/declaration': 'declarationProvider',
+    'textDocument/typeDefinition': 'typeDefinitionProvider',
+    'textDocument/implementation': 'implementationProvider',
+    'textDocument/codeAction': 'codeActionProvider',
+    'textDocument/rename': 'renameProvider',
+    'textDocument/formatting': 'documentFormattingProvider',
+    'textDocument/rangeFormatting': 'documentRangeFormattingProvider',
+    'textDocument/onTypeFormatting': 'documentOnTypeFormattingProvider',
+    'textDocument/documentHighlight': 'documentHighlightProvider',
+    'textDocument/references': 'referencesProvider',
+    'textDocument/prepareCallHierarchy': 'callHierarchyProvider',
+    'textDocument/prepareTypeHierarchy': 'typeHierarchyProvider',
+    'textDocument/documentSymbol': 'documentSymbolProvider',
+    'workspace/symbol': 'workspaceSymbolProvider',
+    'textDocument/inlayHint': 'inlayHintProvider',
+    'textDocument/diagnostic': 'diagnosticProvider',
+    'textDocument/foldingRange': 'foldingRangeProvider',
+    'textDocument/semanticTokens': 'semanticTokensProvider',
+    'workspace/executeCommand': 'executeCommandProvider',
+};
+
+const SemanticTokenTypes = [
+    'namespace', 'type', 'class', 'enum', 'interface', 'struct', 'typeParameter',
+    'parameter', 'variable', 'property', 'enumMember', 'event', 'function',
+    'method', 'macro', 'keyword', 'modifier', 'comment', 'string', 'number',
+    'regexp', 'operator',
+];
+
+const SemanticTokenModifiers = [
+    'declaration', 'definition', 'readonly', 'static', 'deprecated', 'abstract',
+    'async', 'modification', 'documentation', 'defaultLibrary',
+];
+
 // Server to client
-interface LSPEventMap {
+export interface LSPEventMap {
     'textDocument/publishDiagnostics': LSP.PublishDiagnosticsParams;
+    '$/progress': {
+        token: LSP.ProgressToken;
+        value: LSP.WorkDoneProgressBegin | LSP.WorkDoneProgressReport | LSP.WorkDoneProgressEnd;
+    };
+    'window/showMessage': LSP.ShowMessageParams;
+    'window/logMessage': LSP.LogMessageParams;
 }
 
 type Notification = {
@@ -72,19 +350,80 @@ type Notification = {
     };
 }[keyof LSPEventMap];
 
+export type ConnectionState = 'connecting' | 'ready' | 'disconnected' | 'failed';
+
+// Work the server reports progress on, such as indexing
+export interface WorkDoneProgress {
+    title: string;
+    message?: string;
+    percentage?: number;
+    cancellable?: boolean;
+}
+
+export interface LogEntry {
+    type: MessageType;
+    message: string;
+    time: number;
+}
+
+// Keeps a document in sync with the server: an editor, or a virtual document
+// for all of its regions
+interface DocumentSync {
+    flushChanges(): Promise<void>;
+    applyTextEdits(edits: LSP.TextEdit[]): void;
+    // Continues syncing after another editor showing the document, which
+    // sent the given version last
+    takeOverSync(version: number): void;
+}
+
 export class LanguageServerClient {
     private rootUri: string;
     private workspaceFolders: LSP.WorkspaceFolder[];
     private autoClose?: boolean;
+    private settings: LSP.LSPAny;
+    private onExternalEdit?: (uri: string, edits: LSP.TextEdit[]) => void;
 
     private transport: Transport;
+    private createTransport: (() => Transport) | null;
+    private adapter: ServerRequestChannel;
     private requestManager: RequestManager;
     private client: Client;
+    private requestHandlers: Map<string, (params: LSP.LSPAny) => unknown>;
+    private registrations: Map<string, {
+        capability: keyof LSP.ServerCapabilities;
+        method: string;
+        registerOptions: LSP.LSPAny;
+    }>;
+    // The capabilities the server declared when initializing
+    private staticCapabilities: LSP.ServerCapabilities;
 
     public ready: boolean;
     public capabilities: LSP.ServerCapabilities<any>;
 
+    public state: ConnectionState;
+    private stateListeners: ((state: ConnectionState) => void)[];
+    private closing: boolean;
+    private reconnectAttempts: number;
+    private maxReconnectAttempts: number;
+    private reconnectTimeout: number;
+
+    private timeout: number;
+    private timeouts: { [method: string]: number };
+    // Ids are assigned here to be able to cancel requests by id
+    private lastRequestId: number;
+
+    // Work in progress on the server, by token
+    public progress: Map<LSP.ProgressToken, WorkDoneProgress>;
+    // The latest messages logged and shown by the server, oldest first
+    public log: LogEntry[];
+    private logSize: number;
+    private logListeners: ((entry: LogEntry) => void)[];
+    private onShowMessage?: (params: LSP.ShowMessageParams) => void;
+
     private plugins: LanguageServerPlugin[];
+    // Open documents, with the editors showing each of them and the version
+    // last sent. The first editor keeps the document in sync.
+    private documents: Map<string, { editors: DocumentSync[]; version: number }>;
 
     public initializePromise: Promise<void>;
 
@@ -92,36 +431,139 @@ export class LanguageServerClient {
         this.rootUri = options.rootUri;
         this.workspaceFolders = options.workspaceFolders;
         this.autoClose = options.autoClose;
+        this.settings = options.settings;
+        this.onExternalEdit = options.onExternalEdit;
+        this.progress = new Map();
+        this.log = [];
+        this.logSize = options.logSize ?? logSize;
+        this.logListeners = [];
+        this.onShowMessage = options.onShowMessage;
         this.plugins = [];
-        this.transport =  options.transport;
+        this.documents = new Map();
+        this.requestHandlers = new Map();
+        this.registrations = new Map();
+        this.state = 'connecting';
+        this.stateListeners = [];
+        this.closing = false;
+        this.reconnectAttempts = 0;
+        this.maxReconnectAttempts = options.maxReconnectAttempts ?? Infinity;
+        this.reconnectTimeout = 0;
+        this.timeout = options.timeout ?? timeout;
+        this.timeouts = { initialize: this.timeout * 3, ...options.timeouts };
+        this.lastRequestId = 0;
+
+        if (options.reconnect === false) {
+            this.createTransport = null;
+        } else if (options.reconnect) {
+            this.createTransport = options.reconnect;
+        } else if (options.transport instanceof WebSocketMessageTransport) {
+            const uri = options.transport.uri;
+            this.createTransport = () => new WebSocketMessageTransport(uri);
+        } else if (options.transport instanceof WebSocketTransport) {
+            const uri = options.transport.uri;
+            this.createTransport = () => new WebSocketTransport(uri);
+        } else if (options.transport instanceof WorkerTransport && options.transport.scriptURL) {
+            const { scriptURL, workerOptions } = options.transport;
+            this.createTransport = () => new WorkerTransport(scriptURL, workerOptions);
+        } else {
+            this.createTransport = null;
+        }
+
+        this.connect(options.transport);
+        this.onRequest('client/registerCapability', (params) => this.registerCapabilities(params));
+        this.onRequest('client/unregisterCapability', (params) => this.unregisterCapabilities(params));
+        this.onRequest('workspace/configuration', (params) => this.configuration(params));
+        this.onRequest('workspace/applyEdit', ({ edit }) => ({ applied: this.applyWorkspaceEdit(edit) }));
+        this.onRequest('window/showMessageRequest', (params) => options.onShowMessageRequest?.(params) ?? null);
+        this.onRequest('workspace/semanticTokens/refresh', () => {
+            for (const plugin of this.plugins) plugin.requestSemanticTokens();
+            return null;
+        });
+        this.onRequest('workspace/inlayHint/refresh', () => {
+            for (const plugin of this.plugins) plugin.requestInlayHints();
+            return null;
+        });
+        this.onRequest('workspace/diagnostic/refresh', () => {
+            for (const plugin of this.plugins) plugin.requestPullDiagnostics();
+            return null;
+        });
+        // Progress is shown once it begins
+        this.onRequest('window/workDoneProgress/create', () => null);
         
-        this.requestManager = new RequestManager([this.transport]);
+        this.start();
+    }
+
+    private connect(transport: Transport) {
+        this.transport = transport;
+        this.requestManager = new RequestManager([this.transport], () => ++this.lastRequestId);
         this.client = new Client(this.requestManager);
 
         this.client.onNotification((data) => {
             this.processNotification(data as any);
         });
 
-        const webSocketTransport = <WebSocketTransport>this.transport
-        if (webSocketTransport && webSocketTransport.connection) {
-            // XXX(hjr265): Need a better way to do this. Relevant issue:
-            // https://github.com/FurqanSoftware/codemirror-languageserver/issues/9
-            webSocketTransport.connection.addEventListener('message', (message) => {
-                const data = JSON.parse(message.data);
-                if (data.method && data.id) {
-                    webSocketTransport.connection.send(JSON.stringify({
-                        jsonrpc: '2.0',
-                        id: data.id,
-                        result: null
-                    }));
-                }
-            });
-        }
-        
+        this.listenForRequests();
+        onTransportClose(transport, () => {
+            // Ignore transports that have been replaced already
+            if (this.transport === transport) this.disconnected();
+        });
+    }
+
+    private start() {
         this.initializePromise = this.initialize();
+        this.initializePromise.catch((e) => {
+            console.error(e);
+            this.disconnected();
+        });
+    }
+
+    private disconnected() {
+        if (this.closing || this.state === 'disconnected' || this.state === 'failed') return;
+        this.ready = false;
+        this.setState('disconnected');
+        this.client.close();
+        if (this.progress.size) {
+            this.progress.clear();
+            for (const plugin of this.plugins) plugin.updateProgress();
+        }
+
+        if (!this.createTransport || this.reconnectAttempts >= this.maxReconnectAttempts) {
+            this.setState('failed');
+            return;
+        }
+        const delay = Math.min(reconnectDelay * 2 ** this.reconnectAttempts++, maxReconnectDelay);
+        this.reconnectTimeout = self.setTimeout(() => {
+            this.reconnectTimeout = 0;
+            this.connect(this.createTransport!());
+            this.start();
+        }, delay);
+    }
+
+    onStateChange(listener: (state: ConnectionState) => void) {
+        this.stateListeners.push(listener);
+        return () => {
+            const i = this.stateListeners.indexOf(listener);
+            if (i !== -1) this.stateListeners.splice(i, 1);
+        };
+    }
+
+    onLogMessage(listener: (entry: LogEntry) => void) {
+        this.logListeners.push(listener);
+        return () => {
+            const i = this.logListeners.indexOf(listener);
+            if (i !== -1) this.logListeners.splice(i, 1);
+        };
+    }
+
+    private setState(state: ConnectionState) {
+        if (this.state === state) return;
+        this.state = state;
+        for (const listener of this.stateListeners) listener(state);
     }
 
     async initialize() {
+        this.setState('connecting');
+        await this.requestManager.connectPromise;
         const { capabilities } = await this.request('initialize', {
             capabilities: {
                 textDocument: {
@@ -132,26 +574,41 @@ export class LanguageServerClient {
                     moniker: {},
                     synchronization: {
                         dynamicRegistration: true,
-                        willSave: false,
-                        didSave: false,
-                        willSaveWaitUntil: false,
+                        willSave: true,
+                        didSave: true,
+                        willSaveWaitUntil: true,
                     },
                     completion: {
                         dynamicRegistration: true,
                         completionItem: {
-                            snippetSupport: false,
+                            snippetSupport: true,
                             commitCharactersSupport: true,
                             documentationFormat: ['plaintext', 'markdown'],
-                            deprecatedSupport: false,
-                            preselectSupport: false,
+                            deprecatedSupport: true,
+                            preselectSupport: true,
+                            tagSupport: {
+                                valueSet: [CompletionItemTag.Deprecated],
+                            },
+                            insertReplaceSupport: true,
+                            resolveSupport: {
+                                properties: ['documentation', 'detail', 'additionalTextEdits'],
+                            },
                         },
-                        contextSupport: false,
+                        completionList: {
+                            itemDefaults: ['commitCharacters', 'editRange', 'insertTextFormat', 'data'],
+                        },
+                        contextSupport: true,
                     },
                     signatureHelp: {
                         dynamicRegistration: true,
                         signatureInformation: {
                             documentationFormat: ['plaintext', 'markdown'],
+                            parameterInformation: {
+                                labelOffsetSupport: true,
+                            },
+                            activeParameterSupport: true,
                         },
+                        contextSupport: true,
                     },
                     declaration: {
                         dynamicRegistration: true,
@@ -169,45 +626,490 @@ export class LanguageServerClient {
                         dynamicRegistration: true,
                         linkSupport: true,
                     },
+                    codeAction: {
+                        dynamicRegistration: true,
+                        codeActionLiteralSupport: {
+                            codeActionKind: {
+                                valueSet: [
+                                    '',
+                                    'quickfix',
+                                    'refactor',
+                                    'refactor.extract',
+                                    'refactor.inline',
+                                    'refactor.rewrite',
+                                    'source',
+                                    'source.organizeImports',
+                                ],
+                            },
+                        },
+                        isPreferredSupport: true,
+                        disabledSupport: true,
+                        dataSupport: true,
+                        resolveSupport: {
+                            properties: ['edit'],
+                        },
+                    },
+                    rename: {
+                        dynamicRegistration: true,
+                        prepareSupport: true,
+                    },
+                    formatting: {
+                        dynamicRegistration: true,
+                    },
+                    rangeFormatting: {
+                        dynamicRegistration: true,
+                    },
+                    onTypeFormatting: {
+                        dynamicRegistration: true,
+                    },
+                    documentHighlight: {
+                        dynamicRegistration: true,
+                    },
+                    references: {
+                        dynamicRegistration: true,
+                    },
+                    callHierarchy: {
+                        dynamicRegistration: true,
+                    },
+                    typeHierarchy: {
+                        dynamicRegistration: true,
+                    },
+                    documentSymbol: {
+                        dynamicRegistration: true,
+                        hierarchicalDocumentSymbolSupport: true,
+                        symbolKind: {
+                            valueSet: Object.values(SymbolKind).filter(
+                                (kind): kind is SymbolKind => typeof kind === 'number'
+                            ),
+                        },
+                    },
+                    semanticTokens: {
+                        dynamicRegistration: true,
+                        requests: {
+                            full: {
+                                delta: true,
+                            },
+                        },
+                        tokenTypes: SemanticTokenTypes,
+                        tokenModifiers: SemanticTokenModifiers,
+                        formats: ['relative'],
+                        overlappingTokenSupport: false,
+                        multilineTokenSupport: false,
+                    },
+                    inlayHint: {
+                        dynamicRegistration: true,
+                        resolveSupport: {
+                            properties: ['tooltip', 'label.tooltip', 'label.location', 'label.command'],
+                        },
+                    },
+                    publishDiagnostics: {
+                        relatedInformation: true,
+                        tagSupport: {
+                            valueSet: [DiagnosticTag.Unnecessary, DiagnosticTag.Deprecated],
+                        },
+                        codeDescriptionSupport: true,
+                        dataSupport: true,
+                    },
+                    diagnostic: {
+                        dynamicRegistration: true,
+                        relatedDocumentSupport: false,
+                    },
+                    foldingRange: {
+                        dynamicRegistration: true,
+                        lineFoldingOnly: false,
+                        foldingRangeKind: {
+                            valueSet: [FoldingRangeKind.Comment, FoldingRangeKind.Imports, FoldingRangeKind.Region],
+                        },
+                        foldingRange: {
+                            collapsedText: true,
+                        },
+                    },
                 },
                 workspace: {
+                    applyEdit: true,
+                    configuration: true,
                     didChangeConfiguration: {
                         dynamicRegistration: true,
                     },
+                    executeCommand: {
+                        dynamicRegistration: true,
+                    },
+                    symbol: {
+                        dynamicRegistration: true,
+                        symbolKind: {
+                            valueSet: Object.values(SymbolKind).filter(
+                                (kind): kind is SymbolKind => typeof kind === 'number'
+                            ),
+                        },
+                    },
+                    workspaceEdit: {
+                        documentChanges: true,
+                    },
+                    semanticTokens: {
+                        refreshSupport: true,
+                    },
+                    inlayHint: {
+                        refreshSupport: true,
+                    },
+                    diagnostics: {
+                        refreshSupport: true,
+                    },
+                },
+                window: {
+                    showMessage: {
+                        messageActionItem: {
+                            additionalPropertiesSupport: false,
+                        },
+                    },
+                    workDoneProgress: true,
                 },
             },
             initializationOptions: null,
             processId: null,
             rootUri: this.rootUri,
             workspaceFolders: this.workspaceFolders,
-        }, timeout * 3);
-        this.capabilities = capabilities;
+        });
+        this.staticCapabilities = capabilities;
+        this.capabilities = { ...capabilities };
+        this.registrations.clear();
         this.notify('initialized', {});
         this.ready = true;
+        this.reconnectAttempts = 0;
+        this.setState('ready');
+
+        // Documents are (re)opened here, so that they are known to the server
+        // again after a reconnect
+        this.documents.clear();
+        for (const plugin of this.plugins) plugin.initialize();
     }
 
-    close() {
+    async close() {
+        this.closing = true;
+        if (this.reconnectTimeout) clearTimeout(this.reconnectTimeout);
+        if (this.ready) {
+            this.ready = false;
+            try {
+                await this.request('shutdown', null);
+                await this.notify('exit', null);
+            } catch (e) {
+                console.error(e);
+            }
+        }
         this.client.close();
+        this.setState('disconnected');
     }
 
-    textDocumentDidOpen(params: LSP.DidOpenTextDocumentParams) {
+    // Editors showing the same document share it on the server, which only
+    // learns about the first one opening it and the last one closing it.
+    // Only the first one sends changes, so that the server sees every edit
+    // once, and the next one takes over when it closes.
+    textDocumentDidOpen(params: LSP.DidOpenTextDocumentParams, editor: DocumentSync) {
+        const open = this.documents.get(params.textDocument.uri);
+        if (open) {
+            open.editors.push(editor);
+            return;
+        }
+        this.documents.set(params.textDocument.uri, { editors: [editor], version: params.textDocument.version });
         return this.notify('textDocument/didOpen', params);
     }
 
+    textDocumentDidClose(params: LSP.DidCloseTextDocumentParams, editor: DocumentSync) {
+        const open = this.documents.get(params.textDocument.uri);
+        const i = open?.editors.indexOf(editor) ?? -1;
+        if (!open || i === -1) return;
+        open.editors.splice(i, 1);
+        if (open.editors.length) {
+            if (i === 0) open.editors[0].takeOverSync(open.version);
+            return;
+        }
+        this.documents.delete(params.textDocument.uri);
+        if (!this.ready) return;
+        return this.notify('textDocument/didClose', params);
+    }
+
+    isDocumentOpen(uri: string) {
+        return this.documents.has(uri);
+    }
+
+    // The editor keeping an open document in sync
+    documentSync(uri: string): DocumentSync | null {
+        return this.documents.get(uri)?.editors[0] ?? null;
+    }
+
+    // Editors showing a document, which all depend on its state on the server
+    documentPlugins(uri: string) {
+        return this.plugins.filter((plugin) => plugin.documentUri === uri);
+    }
+
+    // Text of a line in a document open in one of the attached editors
+    documentLine(uri: string, line: number): string | null {
+        const plugin = this.plugins.find((plugin) => plugin.documentUri === uri);
+        return plugin ? plugin.lineText(line) : null;
+    }
+
     textDocumentDidChange(params: LSP.DidChangeTextDocumentParams) {
+        const open = this.documents.get(params.textDocument.uri);
+        if (open) open.version = params.textDocument.version;
         return this.notify('textDocument/didChange', params)
     }
 
-    async textDocumentHover(params: LSP.HoverParams) {
-        return await this.request('textDocument/hover', params, timeout)
+    textDocumentWillSave(params: LSP.WillSaveTextDocumentParams) {
+        return this.notify('textDocument/willSave', params)
+    }
+
+    async textDocumentWillSaveWaitUntil(params: LSP.WillSaveTextDocumentParams, signal?: AbortSignal) {
+        return await this.request('textDocument/willSaveWaitUntil', params, signal)
+    }
+
+    textDocumentDidSave(params: LSP.DidSaveTextDocumentParams) {
+        return this.notify('textDocument/didSave', params)
+    }
+
+    // Replaces the settings that workspace/configuration requests are answered
+    // from, and tells the server about it
+    async updateConfiguration(settings: LSP.LSPAny) {
+        this.settings = settings;
+        if (!this.ready) return;
+        await this.notify('workspace/didChangeConfiguration', { settings });
+    }
+
+    async textDocumentHover(params: LSP.HoverParams, signal?: AbortSignal) {
+        return await this.request('textDocument/hover', params, signal)
+    }
+
+    async textDocumentCompletion(params: LSP.CompletionParams, signal?: AbortSignal) {
+        return await this.request('textDocument/completion', params, signal)
+    }
+
+    async completionItemResolve(params: LSP.CompletionItem, signal?: AbortSignal) {
+        return await this.request('completionItem/resolve', params, signal)
+    }
+
+    async textDocumentSignatureHelp(params: LSP.SignatureHelpParams, signal?: AbortSignal) {
+        return await this.request('textDocument/signatureHelp', params, signal)
+    }
+
+    async textDocumentNavigation(method: NavigationMethod, params: LSP.TextDocumentPositionParams, signal?: AbortSignal) {
+        return await this.request(method, params, signal)
+    }
+
+    async textDocumentCodeAction(params: LSP.CodeActionParams, signal?: AbortSignal) {
+        return await this.request('textDocument/codeAction', params, signal)
+    }
+
+    async codeActionResolve(params: LSP.CodeAction, signal?: AbortSignal) {
+        return await this.request('codeAction/resolve', params, signal)
+    }
+
+    async workspaceExecuteCommand(params: LSP.ExecuteCommandParams, signal?: AbortSignal) {
+        return await this.request('workspace/executeCommand', params, signal)
+    }
+
+    async textDocumentPrepareRename(params: LSP.PrepareRenameParams, signal?: AbortSignal) {
+        return await this.request('textDocument/prepareRename', params, signal)
+    }
+
+    async textDocumentRename(params: LSP.RenameParams, signal?: AbortSignal) {
+        return await this.request('textDocument/rename', params, signal)
+    }
+
+    async textDocumentFormatting(params: LSP.DocumentFormattingParams, signal?: AbortSignal) {
+        return await this.request('textDocument/formatting', params, signal)
+    }
+
+    async textDocumentRangeFormatting(params: LSP.DocumentRangeFormattingParams, signal?: AbortSignal) {
+        return await this.request('textDocument/rangeFormatting', params, signal)
+    }
+
+    async textDocumentOnTypeFormatting(params: LSP.DocumentOnTypeFormattingParams, signal?: AbortSignal) {
+        return await this.request('textDocument/onTypeFormatting', params, signal)
+    }
+
+    async textDocumentDocumentHighlight(params: LSP.DocumentHighlightParams, signal?: AbortSignal) {
+        return await this.request('textDocument/documentHighlight', params, signal)
+    }
+
+    async textDocumentReferences(params: LSP.ReferenceParams, signal?: AbortSignal) {
+        return await this.request('textDocument/references', params, signal)
+    }
+
+    async textDocumentPrepareCallHierarchy(params: LSP.CallHierarchyPrepareParams, signal?: AbortSignal) {
+        return await this.request('textDocument/prepareCallHierarchy', params, signal)
+    }
+
+    async callHierarchyIncomingCalls(params: LSP.CallHierarchyIncomingCallsParams, signal?: AbortSignal) {
+        return await this.request('callHierarchy/incomingCalls', params, signal)
+    }
+
+    async callHierarchyOutgoingCalls(params: LSP.CallHierarchyOutgoingCallsParams, signal?: AbortSignal) {
+        return await this.request('callHierarchy/outgoingCalls', params, signal)
+    }
+
+    async textDocumentPrepareTypeHierarchy(params: LSP.TypeHierarchyPrepareParams, signal?: AbortSignal) {
+        return await this.request('textDocument/prepareTypeHierarchy', params, signal)
+    }
+
+    async typeHierarchySupertypes(params: LSP.TypeHierarchySupertypesParams, signal?: AbortSignal) {
+        return await this.request('typeHierarchy/supertypes', params, signal)
+    }
+
+    async typeHierarchySubtypes(params: LSP.TypeHierarchySubtypesParams, signal?: AbortSignal) {
+        return await this.request('typeHierarchy/subtypes', params, signal)
+    }
+
+    async textDocumentDocumentSymbol(params: LSP.DocumentSymbolParams, signal?: AbortSignal) {
+        return await this.request('textDocument/documentSymbol', params, signal)
+    }
+
+    async workspaceSymbol(params: LSP.WorkspaceSymbolParams, signal?: AbortSignal) {
+        return await this.request('workspace/symbol', params, signal)
+    }
+
+    async textDocumentInlayHint(params: LSP.InlayHintParams, signal?: AbortSignal) {
+        return await this.request('textDocument/inlayHint', params, signal)
+    }
+
+    async inlayHintResolve(params: LSP.InlayHint, signal?: AbortSignal) {
+        return await this.request('inlayHint/resolve', params, signal)
+    }
+
+    async textDocumentDiagnostic(params: LSP.DocumentDiagnosticParams, signal?: AbortSignal) {
+        return await this.request('textDocument/diagnostic', params, signal)
+    }
+
+    async textDocumentFoldingRange(params: LSP.FoldingRangeParams, signal?: AbortSignal) {
+        return await this.request('textDocument/foldingRange', params, signal)
+    }
+
+    async textDocumentSemanticTokensFull(params: LSP.SemanticTokensParams, signal?: AbortSignal) {
+        return await this.request('textDocument/semanticTokens/full', params, signal)
+    }
+
+    async textDocumentSemanticTokensFullDelta(params: LSP.SemanticTokensDeltaParams, signal?: AbortSignal) {
+        return await this.request('textDocument/semanticTokens/full/delta', params, signal)
+    }
+
+    // Returns false if part of the edit could not be applied
+    applyWorkspaceEdit({ changes, documentChanges }: LSP.WorkspaceEdit): boolean {
+        let applied = true;
+        // documentChanges takes precedence over changes when both are given
+        const edits: [string, LSP.TextEdit[]][] = documentChanges
+            ? documentChanges.flatMap((change): [string, LSP.TextEdit[]][] => {
+                if ('textDocument' in change) return [[change.textDocument.uri, change.edits]];
+                console.warn(`Unsupported resource operation: ${change.kind}`);
+                applied = false;
+                return [];
+            })
+            : Object.entries(changes ?? {});
+
+        for (const [uri, textEdits] of edits) {
+            // Editors showing the same document get the edits from the one
+            // keeping it in sync
+            const sync = this.documentSync(uri) ?? this.plugins.find((plugin) => plugin.documentUri === uri);
+            if (sync) sync.applyTextEdits(textEdits);
+            else applied = this.applyExternalEdit(uri, textEdits) && applied;
+        }
+        return applied;
+    }
+
+    private applyExternalEdit(uri: string, edits: LSP.TextEdit[]) {
+        if (!this.onExternalEdit) {
+            console.warn(`Dropping workspace edit for ${uri}`);
+            return false;
+        }
+        this.onExternalEdit(uri, edits);
+        return true;
+    }
+
+    // Registers the handler for requests sent by the server, replacing any
+    // built-in handler for the same method.
+    onRequest<K extends keyof LSPServerRequestMap>(method: K, handler: ServerRequestHandler<K>) {
+        this.requestHandlers.set(method, handler);
+    }
+
+    private registerCapabilities({ registrations }: LSP.RegistrationParams) {
+        for (const { id, method, registerOptions } of registrations) {
+            const capability = RegistrationCapabilityMap[method];
+            if (!capability) continue;
+            this.registrations.set(id, { capability, method, registerOptions });
+            this.updateCapability(capability);
+        }
+    }
+
+    private unregisterCapabilities({ unregisterations }: LSP.UnregistrationParams) {
+        for (const { id } of unregisterations) {
+            const registration = this.registrations.get(id);
+            if (!registration) continue;
+            this.registrations.delete(id);
+            this.updateCapability(registration.capability);
+        }
+    }
+
+    // Combines the declared capability with the registrations still in place,
+    // in the order they were made, so they can be unregistered in any order
+    private updateCapability(capability: keyof LSP.ServerCapabilities) {
+        let value: unknown = this.staticCapabilities[capability];
+        for (const registration of this.registrations.values()) {
+            if (registration.capability !== capability) continue;
+            if (capability === 'textDocumentSync') {
+                const sync = value as LSP.TextDocumentSyncOptions | TextDocumentSyncKind | undefined;
+                value = {
+                    ...(typeof sync === 'object'
+                        ? sync
+                        : { openClose: true, change: sync ?? TextDocumentSyncKind.Full }),
+                    ...syncRegistration(registration.method, registration.registerOptions),
+                };
+            } else {
+                value = registration.registerOptions ?? true;
+            }
+        }
+        (this.capabilities as Record<string, unknown>)[capability] = value;
+    }
+
+    private configuration({ items }: LSP.ConfigurationParams) {
+        return items.map(({ section }) =>
+            (section
+                ? section.split('.').reduce((value, key) => value?.[key], this.settings)
+                : this.settings) ?? null
+        );
+    }
+
+    private listenForRequests() {
+        // The package's own transports pick out requests themselves
+        this.adapter = this.transport instanceof MessagePortTransport
+            ? this.transport
+            : new TransportAdapter(this.transport);
+        this.adapter.onRequest((request) => this.processRequest(request));
     }
 
-    async textDocumentCompletion(params: LSP.CompletionParams) {
-        return await this.request('textDocument/completion', params, timeout)
+    private async processRequest({ id, method, params }: ServerRequest) {
+        const handler = this.requestHandlers.get(method);
+        if (!handler) {
+            this.adapter.sendResponse({
+                jsonrpc: '2.0',
+                id,
+                error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${method}` },
+            });
+            return;
+        }
+        try {
+            const result = await handler(params);
+            this.adapter.sendResponse({ jsonrpc: '2.0', id, result: result ?? null });
+        } catch (e) {
+            this.adapter.sendResponse({
+                jsonrpc: '2.0',
+                id,
+                error: {
+                    code: typeof e?.code === 'number' ? e.code : ErrorCodes.InternalError,
+                    message: e?.message ?? String(e),
+                },
+            });
+        }
     }
 
     attachPlugin(plugin: LanguageServerPlugin) {
         this.plugins.push(plugin);
+        if (this.ready) plugin.initialize();
     }
 
     detachPlugin(plugin: LanguageServerPlugin) {
@@ -217,12 +1119,34 @@ export class LanguageServerClient {
         if (this.autoClose) this.close();
     }
 
-    private request<K extends keyof LSPRequestMap>(
+    // Aborting the signal cancels the request on the server, and rejects it
+    // with a RequestCancelled error right away.
+    private async request<K extends keyof LSPRequestMap>(
         method: K,
         params: LSPRequestMap[K][0],
-        timeout: number
+        signal?: AbortSignal
     ): Promise<LSPRequestMap[K][1]> {
-        return this.client.request({ method, params }, timeout);
+        if (signal?.aborted) throw cancelledError();
+        await this.requestManager.connectPromise;
+        if (signal?.aborted) throw cancelledError();
+        const response = this.requestManager.request(
+            { method, params },
+            false,
+            this.timeouts[method] ?? this.timeout
+        );
+        if (!signal) return await response;
+
+        // The id has been assigned while sending the request, and goes over
+        // the wire as a string
+        const id = String(this.lastRequestId);
+        return await new Promise((resolve, reject) => {
+            const abort = () => {
+                this.notify('$/cancelRequest', { id }).catch((e) => console.error(e));
+                reject(cancelledError());
+            };
+            signal.addEventListener('abort', abort, { once: true });
+            response.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+        });
     }
 
     private notify<K extends keyof LSPNotifyMap>(
@@ -233,87 +1157,603 @@ export class LanguageServerClient {
     }
 
     private processNotification(notification: Notification) {
+        switch (notification.method) {
+            case '$/progress':
+                this.processProgress(notification.params);
+                break;
+            case 'window/logMessage':
+                this.addLog(notification.params);
+                break;
+            case 'window/showMessage':
+                this.addLog(notification.params);
+                if (this.onShowMessage) this.onShowMessage(notification.params);
+                else for (const plugin of this.plugins) plugin.showMessage(notification.params);
+                break;
+        }
         for (const plugin of this.plugins)
             plugin.processNotification(notification);
     }
+
+    private processProgress({ token, value }: LSPEventMap['$/progress']) {
+        if (value.kind === 'begin') {
+            const { title, message, percentage, cancellable } = value;
+            this.progress.set(token, { title, message, percentage, cancellable });
+        } else if (value.kind === 'report') {
+            const progress = this.progress.get(token);
+            if (!progress) return;
+            this.progress.set(token, {
+                ...progress,
+                message: value.message ?? progress.message,
+                percentage: value.percentage ?? progress.percentage,
+                cancellable: value.cancellable ?? progress.cancellable,
+            });
+        } else if (!this.progress.delete(token)) {
+            return;
+        }
+        for (const plugin of this.plugins) plugin.updateProgress();
+    }
+
+    // Asks the server to stop work it reported as cancellable
+    cancelProgress(token: LSP.ProgressToken) {
+        return this.notify('window/workDoneProgress/cancel', { token });
+    }
+
+    private addLog({ type, message }: LSP.LogMessageParams) {
+        const entry = { type, message, time: Date.now() };
+        this.log.push(entry);
+        if (this.log.length > this.logSize) this.log.splice(0, this.log.length - this.logSize);
+        for (const listener of this.logListeners) listener(entry);
+    }
 }
 
-class LanguageServerPlugin implements PluginValue {
+class LanguageServerPlugin implements PluginValue, DocumentSync {
     public client: LanguageServerClient;
+    // Whether the last completion list asked to be requested again on typing
+    public completionIncomplete: boolean;
 
-    private documentUri: string;
+    public documentUri: string;
     private languageId: string;
+    // The text around the editor's document on the server, which changes
+    // with the other regions of a virtual document
     private prefix: Text;
     private suffix: Text;
+    private region: VirtualRegion | null;
     private documentVersion: number;
     private documentDirty: boolean;
+    // The document as last sent to the server, and the changes made since
+    private syncedDocument: Text;
+    private pendingChanges: ChangeSet | null;
     
     private changesTimeout: number;
 
-    constructor(private view: EditorView, private allowHTMLContent: boolean) {
-        this.client = this.view.state.facet(client);
+    private signatureHelp: LSP.SignatureHelp | null;
+    private signatureHelpRequest: number;
+
+    // Published and pulled diagnostics are kept apart, so that neither
+    // replaces the other, and shown together
+    private publishedDiagnostics: LSP.Diagnostic[];
+    private pulledDiagnostics: LSP.Diagnostic[];
+    private diagnostics: LSP.Diagnostic[];
+    // Identifies the last pulled diagnostics, so the server can tell that
+    // they are unchanged
+    private diagnosticsResultId: string | undefined;
+
+    private semanticTokens: LSP.SemanticTokens | null;
+    private semanticTokensRequest: number;
+    private semanticTokenMarks: Map<string, Decoration>;
+
+    private highlightTimeout: number;
+    private highlightRequest: number;
+
+    private documentSymbolsRequest: number;
+
+    // The document version the folding ranges were computed for
+    private foldingRangesVersion: number;
+
+    private inlayHintsTimeout: number;
+    private inlayHintsRequest: number;
+
+    // Requests whose results are outdated once a newer one of their kind
+    // is sent, such as hovers
+    private supersededRequests: Map<string, AbortController>;
+
+    constructor(private view: EditorView, private options: LanguageServerOptions) {
+        this.client = this.view.state.facet(client);
         this.documentUri = this.view.state.facet(documentUri);
         this.languageId = this.view.state.facet(languageId);
         this.prefix = this.view.state.facet(prefix);
         this.suffix = this.view.state.facet(suffix);
+        this.region = this.view.state.facet(virtualRegion);
         this.documentVersion = 0;
         this.documentDirty = false;
+        this.syncedDocument = this.view.state.doc;
+        this.pendingChanges = null;
         this.changesTimeout = 0;
+        this.signatureHelp = null;
+        this.signatureHelpRequest = 0;
+        this.publishedDiagnostics = [];
+        this.pulledDiagnostics = [];
+        this.diagnostics = [];
+        this.diagnosticsResultId = undefined;
+        this.semanticTokens = null;
+        this.semanticTokensRequest = 0;
+        this.semanticTokenMarks = new Map();
+        this.highlightTimeout = 0;
+        this.highlightRequest = 0;
+        this.documentSymbolsRequest = 0;
+        this.foldingRangesVersion = -1;
+        this.completionIncomplete = false;
+        this.inlayHintsTimeout = 0;
+        this.inlayHintsRequest = 0;
+        this.supersededRequests = new Map();
 
+        this.region?.document.attach(this.region, this);
         this.client.attachPlugin(this);
-        
-        this.initialize({
-            documentText: this.view.state.doc,
-        });
     }
 
-    update({ docChanged }: ViewUpdate) {
-        if (!docChanged) return;
-        this.documentDirty = true;
-        if (this.changesTimeout) clearTimeout(this.changesTimeout);
-        this.changesTimeout = self.setTimeout(() => {
-            this.sendChange({
-                documentText: this.view.state.doc,
-            });
-        }, changesDelay);
+    update(update: ViewUpdate) {
+        const { docChanged, selectionSet } = update;
+        let uri = update.state.facet(documentUri);
+        let language = update.state.facet(languageId);
+        if (uri === update.startState.facet(documentUri)) uri = this.documentUri;
+        if (language === update.startState.facet(languageId)) language = this.languageId;
+        for (const tr of update.transactions) {
+            for (const effect of tr.effects) {
+                if (!effect.is(setDocument)) continue;
+                uri = effect.value.documentUri;
+                language = effect.value.languageId ?? language;
+            }
+        }
+        if (uri !== this.documentUri || language !== this.languageId) {
+            this.switchDocument(uri, language);
+            return;
+        }
+
+        if (docChanged) {
+            this.documentDirty = true;
+            this.pendingChanges = this.pendingChanges
+                ? this.pendingChanges.compose(update.changes)
+                : update.changes;
+            if (this.changesTimeout) clearTimeout(this.changesTimeout);
+            this.changesTimeout = self.setTimeout(() => {
+                this.sendChange({
+                    documentText: this.view.state.doc,
+                });
+            }, this.options.changesDelay ?? changesDelay);
+        }
+        if (docChanged || selectionSet) {
+            this.updateSignatureHelp(update);
+            this.scheduleDocumentHighlight();
+        }
+        if (docChanged) this.updateOnTypeFormatting(update);
+        if (completionStatus(update.state) === null) this.completionIncomplete = false;
+        if (
+            update.viewportChanged ||
+            update.transactions.some((tr) => tr.effects.some((effect) => effect.is(toggleInlayHintsEffect)))
+        ) {
+            this.scheduleInlayHints();
+        }
     }
 
     destroy() {
+        if (this.changesTimeout) clearTimeout(this.changesTimeout);
+        if (this.highlightTimeout) clearTimeout(this.highlightTimeout);
+        if (this.inlayHintsTimeout) clearTimeout(this.inlayHintsTimeout);
+        for (const controller of this.supersededRequests.values()) controller.abort();
+        if (this.region) {
+            this.region.document.detach(this.region);
+        } else {
+            this.client.textDocumentDidClose({
+                textDocument: { uri: this.documentUri },
+            }, this);
+        }
         this.client.detachPlugin(this);
     }
 
+    switchDocument(uri: string, language: string) {
+        this.client.textDocumentDidClose({
+            textDocument: { uri: this.documentUri },
+        }, this);
+        this.documentUri = uri;
+        this.languageId = language;
+        this.documentVersion = 0;
+        this.publishedDiagnostics = [];
+        this.pulledDiagnostics = [];
+        this.diagnostics = [];
+        this.diagnosticsResultId = undefined;
+        this.foldingRangesVersion = -1;
+        if (this.client.ready) this.initialize();
+        // Diagnostics of the previous document no longer apply, but the view
+        // cannot be updated while it is being updated already
+        Promise.resolve().then(() => this.view.dispatch(setDiagnostics(this.view.state, [])));
+    }
+
+    // Cancels the previous request of the given kind and returns the signal
+    // for the next one
+    supersede(kind: string): AbortSignal {
+        this.supersededRequests.get(kind)?.abort();
+        const controller = new AbortController();
+        this.supersededRequests.set(kind, controller);
+        return controller.signal;
+    }
+
+    // Sends a request about the whole document, which regions of a virtual
+    // document share with the others asking at the same time. Otherwise it
+    // supersedes the last request of the given kind.
+    documentRequest<T>(
+        method: string,
+        params: object,
+        send: (signal?: AbortSignal) => Promise<T>,
+        kind?: string
+    ): Promise<T> {
+        if (this.region) return this.region.document.request(method + JSON.stringify(params), send);
+        return send(kind ? this.supersede(kind) : undefined);
+    }
+
     fullText(documentText: Text): string {
         return this.prefix.append(documentText).append(this.suffix).toString();
     }
 
-    async initialize({ documentText }: { documentText: Text }) {
-         if (this.client.initializePromise) {
-            await this.client.initializePromise;
+    lineText(line: number): string | null {
+        const fullTxt = this.prefix.append(this.view.state.doc).append(this.suffix);
+        return line < fullTxt.lines ? fullTxt.line(line + 1).text : null;
+    }
+
+    // Opens the document on the server. Called by the client whenever it
+    // becomes ready, including after a reconnect.
+    initialize() {
+        const documentText = this.resetSync();
+        if (this.region) {
+            this.region.document.open(this.region, documentText);
+        } else {
+            this.client.textDocumentDidOpen({
+                textDocument: {
+                    uri: this.documentUri,
+                    languageId: this.languageId,
+                    text: this.fullText(documentText),
+                    version: this.documentVersion,
+                }
+            }, this);
         }
-        this.client.textDocumentDidOpen({
-            textDocument: {
-                uri: this.documentUri,
-                languageId: this.languageId,
-                text: this.fullText(documentText),
-                version: this.documentVersion,
-            }
-        });
+        this.refreshDocumentState();
+    }
+
+    // Takes the editor's document as the one the server knows, when it is
+    // opened there
+    resetSync(): Text {
+        if (this.changesTimeout) clearTimeout(this.changesTimeout);
+        this.changesTimeout = 0;
+        this.documentDirty = false;
+        this.syncedDocument = this.view.state.doc;
+        this.pendingChanges = null;
+        this.semanticTokens = null;
+        return this.syncedDocument;
+    }
+
+    // Called by virtual documents when the text around this region changes
+    setSurroundings(prefix: Text, suffix: Text, version: number) {
+        this.prefix = prefix;
+        this.suffix = suffix;
+        this.documentVersion = version;
+    }
+
+    positionAt(doc: Text, offset: number): LSP.Position {
+        return offsetToPos(doc, this.prefix, offset);
+    }
+
+    // Where a range of the document shows in the editor. Empty ranges where
+    // two regions of a virtual document meet show in only one of them.
+    shownRange(doc: Text, range: LSP.Range) {
+        const offsets = rangeToOffsets(doc, this.prefix, this.suffix, range);
+        if (!offsets || offsets.from !== offsets.to || !this.region) return offsets;
+        return this.region.document.pluginAt(range) === this ? offsets : null;
+    }
+
+    // Asks again for everything that depends on the whole document
+    refreshDocumentState() {
+        this.requestSemanticTokens();
+        this.refreshDocumentSymbols();
+        this.requestInlayHints();
+        this.requestPullDiagnostics();
+        this.requestFoldingRanges();
+        this.requestDocumentHighlight();
     }
 
+    // Sends pending changes right away. Called before every request that
+    // depends on the document state, so the server never answers for an
+    // outdated document.
     async sendChange({ documentText }: { documentText: Text }) {
-        if (!this.client.ready || !this.documentDirty) return;
+        if (!this.client.ready) return;
+        // Another editor showing the document has the same changes to send
+        const sync = this.region ? this : this.client.documentSync(this.documentUri);
+        if (sync && sync !== this) {
+            if (this.changesTimeout) clearTimeout(this.changesTimeout);
+            this.changesTimeout = 0;
+            this.documentDirty = false;
+            this.syncedDocument = documentText;
+            this.pendingChanges = null;
+            return sync.flushChanges();
+        }
+        if (!this.documentDirty) return;
+        if (this.changesTimeout) clearTimeout(this.changesTimeout);
+        this.changesTimeout = 0;
+        const syncKind = this.syncKind();
+        const contentChanges = syncKind === TextDocumentSyncKind.Incremental && this.pendingChanges
+            ? this.incrementalChanges(this.syncedDocument, this.pendingChanges)
+            : [{ text: this.fullText(documentText) }];
         this.documentDirty = false;
+        this.syncedDocument = documentText;
+        this.pendingChanges = null;
+        // Virtual documents send the changes, and refresh all their regions
+        if (this.region) {
+            const changes = syncKind === TextDocumentSyncKind.None ? [] : contentChanges;
+            return this.region.document.change(this.region, changes, documentText);
+        }
+        if (syncKind === TextDocumentSyncKind.None) return;
         try {
             await this.client.textDocumentDidChange({
                 textDocument: {
                     uri: this.documentUri,
-                    version: this.documentVersion++,
+                    version: ++this.documentVersion,
+                },
+                contentChanges,
+            });
+        } catch (e) {
+            console.error(e);
+        }
+        for (const plugin of this.client.documentPlugins(this.documentUri)) plugin.refreshDocumentState();
+    }
+
+    takeOverSync(version: number) {
+        this.documentVersion = version;
+        // The whole text is sent, in case it differs from the one the server
+        // has
+        this.documentDirty = true;
+        this.pendingChanges = null;
+        this.sendChange({ documentText: this.view.state.doc });
+    }
+
+    // Called by hosts before saving the document. Applies the edits the
+    // server wants made first, such as organizing imports.
+    async willSave(reason: TextDocumentSaveReason = TextDocumentSaveReason.Manual) {
+        // Virtual documents are saved as a whole
+        if (this.region) return this.region.document.willSave(reason);
+        const sync = this.client.capabilities?.textDocumentSync;
+        if (!this.client.ready || typeof sync !== 'object') return;
+        await this.sendChange({ documentText: this.view.state.doc });
+
+        const params = { textDocument: { uri: this.documentUri }, reason };
+        if (sync.willSave) this.client.textDocumentWillSave(params);
+        if (!sync.willSaveWaitUntil) return;
+        const doc = this.view.state.doc;
+        let edits: LSP.TextEdit[] | null;
+        try {
+            edits = await this.client.textDocumentWillSaveWaitUntil(params);
+        } catch (e) {
+            console.error(e);
+            return;
+        }
+        if (edits && this.view.state.doc === doc) this.applyTextEdits(edits);
+    }
+
+    // Called by hosts once the document is saved
+    async didSave() {
+        if (this.region) return this.region.document.didSave();
+        const sync = this.client.capabilities?.textDocumentSync;
+        if (!this.client.ready || typeof sync !== 'object' || !sync.save) return;
+        await this.sendChange({ documentText: this.view.state.doc });
+        const includeText = typeof sync.save === 'object' && sync.save.includeText;
+        await this.client.textDocumentDidSave({
+            textDocument: { uri: this.documentUri },
+            text: includeText ? this.fullText(this.syncedDocument) : undefined,
+        });
+    }
+
+    // Sends pending changes without waiting for the editor to go idle
+    flushChanges() {
+        return this.sendChange({ documentText: this.view.state.doc });
+    }
+
+    syncKind(): TextDocumentSyncKind {
+        const sync = this.client.capabilities?.textDocumentSync;
+        if (sync === undefined) return TextDocumentSyncKind.Full;
+        if (typeof sync === 'number') return sync;
+        return sync.change ?? TextDocumentSyncKind.None;
+    }
+
+    // Content changes are applied one after the other by the server, so they
+    // are listed back to front to keep positions relative to the old document.
+    incrementalChanges(doc: Text, changes: ChangeSet): LSP.TextDocumentContentChangeEvent[] {
+        const contentChanges: LSP.TextDocumentContentChangeEvent[] = [];
+        changes.iterChanges((fromA, toA, _fromB, _toB, inserted) => {
+            contentChanges.unshift({
+                range: {
+                    start: offsetToPos(doc, this.prefix, fromA),
+                    end: offsetToPos(doc, this.prefix, toA),
                 },
-                contentChanges: [{ text: this.fullText(documentText) }],
+                text: inserted.toString(),
             });
+        });
+        return contentChanges;
+    }
+
+    async requestSemanticTokens() {
+        const provider = this.client.capabilities?.semanticTokensProvider;
+        if (!this.options.semanticTokens || !this.client.ready || !provider?.full) return;
+        const id = ++this.semanticTokensRequest;
+        const doc = this.view.state.doc;
+        const textDocument = { uri: this.documentUri };
+
+        try {
+            const previous = this.semanticTokens;
+            const previousResultId = typeof provider.full === 'object' && provider.full.delta
+                ? previous?.resultId
+                : undefined;
+            const result = previousResultId
+                ? await this.documentRequest('textDocument/semanticTokens/full/delta', { textDocument, previousResultId }, () =>
+                    this.client.textDocumentSemanticTokensFullDelta({ textDocument, previousResultId }))
+                : await this.documentRequest('textDocument/semanticTokens/full', { textDocument }, () =>
+                    this.client.textDocumentSemanticTokensFull({ textDocument }));
+            if (textDocument.uri !== this.documentUri) return;
+            // Keep the tokens even if outdated, later deltas are relative to them
+            this.semanticTokens = result && 'edits' in result
+                ? applySemanticTokensEdits(previous?.data ?? [], result)
+                : result as LSP.SemanticTokens | null;
         } catch (e) {
             console.error(e);
+            return;
+        }
+        if (id !== this.semanticTokensRequest || this.view.state.doc !== doc) return;
+
+        this.view.dispatch({
+            effects: setSemanticTokens.of(this.semanticTokenDecorations(doc, provider.legend)),
+        });
+    }
+
+    // Scrolling asks for the hints of the newly visible lines
+    scheduleInlayHints() {
+        if (this.inlayHintsTimeout) clearTimeout(this.inlayHintsTimeout);
+        this.inlayHintsTimeout = self.setTimeout(() => {
+            this.inlayHintsTimeout = 0;
+            this.requestInlayHints();
+        }, highlightDelay);
+    }
+
+    async requestInlayHints() {
+        const { enabled } = this.view.state.field(inlayHintsField);
+        if (!enabled || !this.client.ready || !this.client.capabilities?.inlayHintProvider) return;
+        // Pending changes are sent first, which asks for hints again
+        if (this.documentDirty) return;
+        const id = ++this.inlayHintsRequest;
+        const doc = this.view.state.doc;
+        const textDocument = { uri: this.documentUri };
+        // Regions of a virtual document ask for the hints of all of it
+        // together, rather than for their visible lines
+        const { from, to } = this.region
+            ? { from: -this.prefix.length, to: doc.length + this.suffix.length }
+            : this.view.viewport;
+        const params = {
+            textDocument,
+            range: {
+                start: offsetToPos(doc, this.prefix, from),
+                end: offsetToPos(doc.append(this.suffix), this.prefix, to),
+            },
+        };
+
+        let hints: LSP.InlayHint[] | null;
+        try {
+            hints = await this.documentRequest('textDocument/inlayHint', params, (signal) =>
+                this.client.textDocumentInlayHint(params, signal), 'inlayHints');
+        } catch (e) {
+            if (!isCancelled(e)) console.error(e);
+            return;
+        }
+        if (id !== this.inlayHintsRequest || textDocument.uri !== this.documentUri) return;
+        if (this.view.state.doc !== doc || !this.view.state.field(inlayHintsField).enabled) return;
+
+        this.view.dispatch({
+            effects: setInlayHints.of(this.inlayHintDecorations(doc, hints ?? [])),
+        });
+    }
+
+    inlayHintDecorations(doc: Text, hints: LSP.InlayHint[]): DecorationSet {
+        return Decoration.set(
+            hints.flatMap((hint) => {
+                // Hints in the hidden prefix and suffix are dropped
+                const range = this.shownRange(doc, { start: hint.position, end: hint.position });
+                if (!range || range.from !== range.to) return [];
+                return [
+                    Decoration.widget({
+                        widget: new InlayHintWidget(hint, this),
+                        // Typing at a parameter hint goes after it, at a type hint before it
+                        side: hint.kind === InlayHintKind.Parameter ? -1 : 1,
+                    }).range(range.from),
+                ];
+            }),
+            true
+        );
+    }
+
+    async resolveInlayHint(hint: LSP.InlayHint): Promise<LSP.InlayHint> {
+        const provider = this.client.capabilities?.inlayHintProvider;
+        if (!this.client.ready || typeof provider !== 'object' || !provider.resolveProvider) return hint;
+        return await this.client.inlayHintResolve(hint);
+    }
+
+    semanticTokenDecorations(doc: Text, { tokenTypes, tokenModifiers }: LSP.SemanticTokensLegend) {
+        const builder = new RangeSetBuilder<Decoration>();
+        const data = this.semanticTokens?.data ?? [];
+        const fullTxt = this.prefix.append(doc);
+        let line = 0;
+        let character = 0;
+        for (let i = 0; i + 4 < data.length; i += 5) {
+            line += data[i];
+            character = data[i] ? data[i + 1] : character + data[i + 1];
+            if (line >= fullTxt.lines) break;
+            const { from: lineStart, to: lineEnd } = fullTxt.line(line + 1);
+            const from = lineStart + character - this.prefix.length;
+            const to = Math.min(lineStart + character + data[i + 2], lineEnd) - this.prefix.length;
+            // Skip tokens in the prefix and suffix
+            if (from < 0 || to <= from) continue;
+
+            let className = `cm-lsp-semantic-${tokenTypes[data[i + 3]]}`;
+            for (let bit = 0; bit < tokenModifiers.length; bit++) {
+                if (data[i + 4] & (1 << bit)) className += ` cm-lsp-semantic-mod-${tokenModifiers[bit]}`;
+            }
+            let mark = this.semanticTokenMarks.get(className);
+            if (!mark) {
+                mark = Decoration.mark({ class: className });
+                this.semanticTokenMarks.set(className, mark);
+            }
+            builder.add(from, to, mark);
         }
+        return builder.finish();
+    }
+
+    scheduleDocumentHighlight() {
+        if (this.highlightTimeout) clearTimeout(this.highlightTimeout);
+        // Responses for the previous selection are no longer of interest
+        this.highlightRequest++;
+        this.highlightTimeout = self.setTimeout(() => {
+            this.highlightTimeout = 0;
+            this.requestDocumentHighlight();
+        }, highlightDelay);
+    }
+
+    async requestDocumentHighlight() {
+        if (!this.client.ready || !this.client.capabilities!.documentHighlightProvider) return;
+        const id = ++this.highlightRequest;
+        const { state } = this.view;
+        const pos = state.selection.main.head;
+        if (!state.wordAt(pos)) {
+            this.setDocumentHighlights(Decoration.none);
+            return;
+        }
+        // Pending changes are sent first, which asks for highlights again
+        if (this.documentDirty) return;
+
+        let highlights: LSP.DocumentHighlight[] | null;
+        try {
+            highlights = await this.client.textDocumentDocumentHighlight({
+                textDocument: { uri: this.documentUri },
+                position: offsetToPos(state.doc, this.prefix, pos),
+            }, this.supersede('documentHighlight'));
+        } catch (e) {
+            if (!isCancelled(e)) console.error(e);
+            return;
+        }
+        if (id !== this.highlightRequest || this.view.state.doc !== state.doc) return;
+
+        this.setDocumentHighlights(Decoration.set((highlights ?? []).flatMap(({ range, kind }) => {
+            const offsets = rangeToOffsets(state.doc, this.prefix, this.suffix, range);
+            if (!offsets || offsets.from === offsets.to) return [];
+            return [DocumentHighlightMarks[kind ?? DocumentHighlightKind.Text].range(offsets.from, offsets.to)];
+        }), true));
+    }
+
+    setDocumentHighlights(highlights: DecorationSet) {
+        if (highlights.size === 0 && !this.view.state.field(documentHighlightField, false)?.size) return;
+        this.view.dispatch({ effects: setDocumentHighlights.of(highlights) });
     }
 
     requestDiagnostics(view: EditorView) {
@@ -325,15 +1765,25 @@ class LanguageServerPlugin implements PluginValue {
         { line, character }: { line: number; character: number }
     ): Promise<Tooltip | null> {
         if (!this.client.ready || !this.client.capabilities!.hoverProvider) return null;
-
-        const result = await this.client.textDocumentHover({
-            textDocument: { uri: this.documentUri },
-            position: { line, character },
+        this.sendChange({
+            documentText: view.state.doc,
         });
-        if (!result) return null;
+
+        const version = this.documentVersion;
+        let result: LSP.Hover | null;
+        try {
+            result = await this.client.textDocumentHover({
+                textDocument: { uri: this.documentUri },
+                position: { line, character },
+            }, this.supersede('hover'));
+        } catch (e) {
+            if (isCancelled(e)) return null;
+            throw e;
+        }
+        // Answered for an older version of the document
+        if (!result || version !== this.documentVersion) return null;
         const { contents, range } = result;
-        let formattedContents = formatContents(contents)
-        if (formattedContents.length == 0) return null;
+        if (formatContents(contents).length == 0) return null;
         let pos = posToOffset(view.state.doc, this.prefix, { line, character })!;
         let end: number;
         if (range) {
@@ -341,11 +1791,188 @@ class LanguageServerPlugin implements PluginValue {
             end = posToOffset(view.state.doc, this.prefix, range.end);
         }
         if (pos === null) return null;
+        const dom = this.renderDocumentation(contents);
+        return { pos, end, create: (view) => ({ dom }), above: true };
+    }
+
+    // Markdown is rendered to sanitized DOM, plain text is shown as is
+    renderDocumentation(contents: LSP.MarkupContent | LSP.MarkedString | LSP.MarkedString[]) {
         const dom = document.createElement('div');
         dom.classList.add('documentation');
-        if (this.allowHTMLContent) dom.innerHTML = formattedContents;
-        else dom.textContent = formattedContents;
-        return { pos, end, create: (view) => ({ dom }), above: true };
+        const renderer: MarkdownRenderer = {
+            code: (code, language) => this.renderCode(code, language),
+            link: (url) => this.renderLink(url),
+        };
+        for (const content of Array.isArray(contents) ? contents : [contents]) {
+            if (typeof content === 'string') {
+                renderMarkdown(dom, content, renderer);
+            } else if ('language' in content) {
+                dom.appendChild(this.renderCode(content.value, content.language));
+            } else if (content.kind === 'markdown') {
+                renderMarkdown(dom, content.value, renderer);
+            } else {
+                const text = dom.appendChild(document.createElement('div'));
+                text.className = 'cm-lsp-plaintext';
+                text.textContent = content.value;
+            }
+        }
+        return dom;
+    }
+
+    renderCode(code: string, name: string) {
+        const pre = document.createElement('pre');
+        const dom = pre.appendChild(document.createElement('code'));
+        const codeLanguage = this.codeLanguage(name);
+        if (!codeLanguage) {
+            dom.textContent = code;
+            return pre;
+        }
+        // Uses the highlight style of the editor
+        const highlighter: Highlighter = { style: (tags) => highlightingFor(this.view.state, tags) };
+        highlightCode(
+            code,
+            codeLanguage.parser.parse(code),
+            highlighter,
+            (text, classes) => {
+                if (!classes) {
+                    dom.append(text);
+                    return;
+                }
+                const span = dom.appendChild(document.createElement('span'));
+                span.className = classes;
+                span.textContent = text;
+            },
+            () => dom.append('\n')
+        );
+        return pre;
+    }
+
+    // Code without a language or in the language of the document is
+    // highlighted like the document itself
+    codeLanguage(name: string): Language | null {
+        const hostLanguage = this.options.codeLanguage?.(name);
+        if (hostLanguage) return hostLanguage;
+        if (!name || name === this.languageId) return this.view.state.facet(language);
+        return null;
+    }
+
+    renderLink(url: string) {
+        const { onLink } = this.options;
+        const safe = /^(https?|mailto):/i.test(url);
+        if (!onLink && !safe) return document.createElement('span');
+        const link = document.createElement('a');
+        if (safe) link.href = url;
+        if (onLink) {
+            link.addEventListener('click', (event) => {
+                event.preventDefault();
+                onLink(url);
+            });
+        } else {
+            link.target = '_blank';
+            link.rel = 'noopener noreferrer';
+        }
+        return link;
+    }
+
+    updateSignatureHelp(update: ViewUpdate) {
+        const provider = this.client.capabilities?.signatureHelpProvider;
+        if (!this.client.ready || !provider) return;
+
+        const active = update.state.field(signatureHelpField, false) != null;
+        const typed = typedCharacter(update);
+
+        let context: LSP.SignatureHelpContext;
+        if (typed && (provider.triggerCharacters?.includes(typed) ||
+                (active && provider.retriggerCharacters?.includes(typed)))) {
+            context = {
+                triggerKind: SignatureHelpTriggerKind.TriggerCharacter,
+                triggerCharacter: typed,
+                isRetrigger: active,
+            };
+        } else if (active) {
+            context = {
+                triggerKind: SignatureHelpTriggerKind.ContentChange,
+                isRetrigger: true,
+            };
+        } else return;
+
+        this.requestSignatureHelp(update.view, context);
+    }
+
+    async requestSignatureHelp(view: EditorView, context: LSP.SignatureHelpContext) {
+        if (!this.client.ready || !this.client.capabilities!.signatureHelpProvider) return;
+        const id = ++this.signatureHelpRequest;
+        const pos = view.state.selection.main.head;
+        this.sendChange({
+            documentText: view.state.doc,
+        });
+
+        let result: LSP.SignatureHelp | null = null;
+        try {
+            result = await this.client.textDocumentSignatureHelp({
+                textDocument: { uri: this.documentUri },
+                position: offsetToPos(view.state.doc, this.prefix, pos),
+                context: {
+                    ...context,
+                    activeSignatureHelp: context.isRetrigger ? this.signatureHelp ?? undefined : undefined,
+                },
+            }, this.supersede('signatureHelp'));
+        } catch (e) {
+            if (!isCancelled(e)) console.error(e);
+        }
+        // A newer request has been issued in the meantime
+        if (id !== this.signatureHelpRequest) return;
+
+        const hadSignatureHelp = this.signatureHelp !== null;
+        this.signatureHelp = result?.signatures.length ? result : null;
+        if (!hadSignatureHelp && !this.signatureHelp) return;
+        const dom = this.signatureHelp && this.createSignatureHelp(this.signatureHelp);
+        view.dispatch({
+            effects: setSignatureHelp.of(dom && { pos, create: () => ({ dom }), above: true }),
+        });
+    }
+
+    closeSignatureHelp(view: EditorView) {
+        if (view.state.field(signatureHelpField, false) == null) return false;
+        this.signatureHelpRequest++;
+        this.signatureHelp = null;
+        view.dispatch({ effects: setSignatureHelp.of(null) });
+        return true;
+    }
+
+    createSignatureHelp({ signatures, activeSignature, activeParameter }: LSP.SignatureHelp) {
+        const dom = document.createElement('div');
+        dom.classList.add('cm-lsp-signature-help');
+        signatures.forEach((signature, i) => {
+            const item = dom.appendChild(document.createElement('div'));
+            item.className = 'cm-lsp-signature';
+            const active = i === (activeSignature ?? 0);
+            if (active) item.classList.add('cm-lsp-signature-active');
+
+            const parameter = signature.parameters?.[signature.activeParameter ?? activeParameter ?? 0];
+            const label = item.appendChild(document.createElement('code'));
+            const [from, to] = parameter
+                ? parameterLabelRange(signature.label, parameter.label)
+                : [-1, -1];
+            if (from < 0) {
+                label.textContent = signature.label;
+            } else {
+                label.append(signature.label.slice(0, from));
+                const current = label.appendChild(document.createElement('span'));
+                current.className = 'cm-lsp-signature-active-parameter';
+                current.textContent = signature.label.slice(from, to);
+                label.append(signature.label.slice(to));
+            }
+
+            if (!active) return;
+            if (parameter?.documentation) {
+                item.appendChild(this.renderDocumentation(markupContent(parameter.documentation)));
+            }
+            if (signature.documentation) {
+                item.appendChild(this.renderDocumentation(markupContent(signature.documentation)));
+            }
+        });
+        return dom;
     }
 
     async requestCompletion(
@@ -364,192 +1991,2619 @@ class LanguageServerPlugin implements PluginValue {
             documentText: context.state.doc,
         });
 
-        const result = await this.client.textDocumentCompletion({
-            textDocument: { uri: this.documentUri },
-            position: { line, character },
-            context: {
-                triggerKind,
-                triggerCharacter,
-            }
-        });
+        // CodeMirror aborts the query when the document changes or the
+        // completion is closed
+        const controller = new AbortController();
+        context.addEventListener('abort', () => controller.abort(), { onDocChange: true });
+        const version = this.documentVersion;
+        let result: LSP.CompletionItem[] | LSP.CompletionList | null;
+        try {
+            result = await this.client.textDocumentCompletion({
+                textDocument: { uri: this.documentUri },
+                position: { line, character },
+                context: {
+                    triggerKind,
+                    triggerCharacter,
+                }
+            }, controller.signal);
+        } catch (e) {
+            if (isCancelled(e)) return null;
+            throw e;
+        }
+        if (version !== this.documentVersion) return null;
 
+        this.completionIncomplete = !!result && 'isIncomplete' in result && result.isIncomplete;
         if (!result) return null;
 
+        const { state, pos } = context;
         const items = 'items' in result ? result.items : result;
+        const defaults = 'items' in result ? result.itemDefaults : undefined;
+        const provider = this.client.capabilities!.completionProvider!;
+        // Items without an edit range complete the word before the cursor
+        const wordFrom = context.matchBefore(/\w*$/)?.from ?? pos;
+
+        let from = pos;
+        const options = items.flatMap((lspItem) => {
+            const item = defaults?.data === undefined ? lspItem : { data: defaults.data, ...lspItem };
+            const { textEdit } = item;
+            const editRange = textEdit
+                ? 'insert' in textEdit ? textEdit.insert : textEdit.range
+                : defaults?.editRange && ('insert' in defaults.editRange ? defaults.editRange.insert : defaults.editRange);
+            const text = textEdit?.newText ?? (editRange && item.textEditText) ?? item.insertText ?? item.label;
+            // Items that would replace hidden prefix or suffix text are left out
+            const range = editRange
+                ? textEditToChange(state.doc, this.prefix, this.suffix, { range: editRange, newText: text })
+                : { from: wordFrom, to: pos, insert: text };
+            if (!range || range.insert !== text) return [];
+            from = Math.min(from, range.from);
 
-        let options = items.map(
-            ({
-                detail,
-                label,
-                kind,
-                textEdit,
-                documentation,
-                sortText,
-                filterText,
-            }) => {
-                const completion: Completion & {
-                    filterText: string;
-                    sortText?: string;
-                    apply: string;
-                    from: number;
-                } = {
-                    label,
-                    detail,
-                    apply: textEdit?.newText ?? label,
-                    from: posToOffset(context.state.doc, this.prefix, (textEdit as LSP.TextEdit)?.range?.start),
-                    type: kind && CompletionItemKindMap[kind].toLowerCase(),
-                    sortText: sortText ?? label,
-                    filterText: filterText ?? label,
+            const isSnippet = (item.insertTextFormat ?? defaults?.insertTextFormat) === InsertTextFormat.Snippet;
+            let resolved: Promise<LSP.CompletionItem> | null = null;
+            const resolve = () => (resolved = resolved ?? this.resolveCompletionItem(item));
+
+            const completion: LSPCompletion = {
+                // Filtering matches the filter text, while the label is shown
+                label: item.filterText ?? item.label,
+                displayLabel: item.filterText && item.filterText !== item.label ? item.label : undefined,
+                detail: item.detail,
+                type: item.kind && CompletionItemKindMap[item.kind].toLowerCase(),
+                sortText: item.sortText ?? item.label,
+                commitCharacters: item.commitCharacters,
+                boost: item.preselect ? 99 : undefined,
+                deprecated: item.deprecated || item.tags?.includes(CompletionItemTag.Deprecated),
+                // The user may have typed on since the request, which
+                // extends the range to replace
+                apply: (view, completion, _from, to) =>
+                    this.applyCompletion(view, completion, item, resolve, {
+                        text,
+                        isSnippet,
+                        from: range.from,
+                        to: to + Math.max(0, range.to - pos),
+                    }),
+            };
+            if (item.documentation) {
+                const { documentation } = item;
+                completion.info = () => this.renderDocumentation(markupContent(documentation));
+            } else if (provider.resolveProvider) {
+                completion.info = async () => {
+                    const { documentation } = await resolve();
+                    return documentation ? this.renderDocumentation(markupContent(documentation)) : null;
                 };
-                if (documentation) {
-                    completion.info = formatContents(documentation);
-                }
-                return completion;
             }
-        );
+            return [completion];
+        });
+        const commitCharacters = defaults?.commitCharacters ?? provider.allCommitCharacters;
 
-        const from = Math.min(...options.map(o => o.from));
-        const to = context.pos;
-        if (from < to) {
-            const prefix = context.matchBefore(new RegExp('.{' + (to - from) + '}'));
-            options.forEach(o => {
-                if (o.from > from) {
-                    o.apply = prefix.text.substring(0, o.from - from) + o.apply;
-                }
-            });
+        // Incomplete lists are filtered by the server and asked for again
+        // on every keystroke, complete ones are filtered here
+        if (this.completionIncomplete) {
+            options.sort((a, b) => (b.boost ?? 0) - (a.boost ?? 0) || a.sortText!.localeCompare(b.sortText!));
+            return { from, options, filter: false, commitCharacters };
         }
-
         return {
             from,
             options,
-            filter: false
+            validFor: prefixMatch(options)[0],
+            commitCharacters,
         };
     }
 
-    processNotification(notification: Notification) {
-        try {
-            switch (notification.method) {
-                case 'textDocument/publishDiagnostics':
-                    this.processDiagnostics(notification.params);
-            }
-        } catch (error) {
-            console.error(error);
-        }
+    async resolveCompletionItem(item: LSP.CompletionItem): Promise<LSP.CompletionItem> {
+        if (!this.client.ready || !this.client.capabilities!.completionProvider?.resolveProvider) return item;
+        // Merged into the item so applying it later sees the resolved edits
+        return Object.assign(item, await this.client.completionItemResolve(item));
     }
 
-    processDiagnostics(params: PublishDiagnosticsParams) {
-        if (params.uri !== this.documentUri) return;
-
-        const diagnostics = params.diagnostics
-            .map(({ range, message, severity }) => ({
-                from: posToOffset(this.view.state.doc, this.prefix, range.start)!,
-                to: posToOffset(this.view.state.doc, this.prefix, range.end)!,
-                severity: ({
-                    [DiagnosticSeverity.Error]: 'error',
-                    [DiagnosticSeverity.Warning]: 'warning',
-                    [DiagnosticSeverity.Information]: 'info',
-                    [DiagnosticSeverity.Hint]: 'info',
-                } as const)[severity!],
-                message,
-            }))
-            .filter(({ from, to }) => from !== null && to !== null && from !== undefined && to !== undefined)
-            .sort((a, b) => {
-                switch (true) {
-                    case a.from < b.from:
-                        return -1;
-                    case a.from > b.from:
-                        return 1;
-                }
-                return 0;
+    applyCompletion(
+        view: EditorView,
+        completion: Completion,
+        item: LSP.CompletionItem,
+        resolve: () => Promise<LSP.CompletionItem>,
+        { text, isSnippet, from, to }: { text: string; isSnippet: boolean; from: number; to: number }
+    ) {
+        // Additional edits, such as auto-imports, are applied first so the
+        // completion range can be mapped over them. Text they insert where
+        // the range starts stays before it.
+        const additionalChanges = this.textEditChanges(view.state.doc, item.additionalTextEdits ?? []);
+        if (additionalChanges.length) {
+            const tr = view.state.update({ changes: additionalChanges, userEvent: 'input.complete' });
+            view.dispatch(tr);
+            from = tr.changes.mapPos(from, 1);
+            to = Math.max(from, tr.changes.mapPos(to));
+        }
+        if (isSnippet) {
+            snippet(snippetTemplate(text))(view, completion, from, to);
+        } else {
+            view.dispatch({
+                ...insertCompletionText(view.state, text, from, to),
+                annotations: pickedCompletion.of(completion),
             });
+        }
+        if (item.additionalTextEdits) return;
 
-        this.view.dispatch(setDiagnostics(this.view.state, diagnostics));
+        // Servers may only compute additional edits on resolve
+        const doc = view.state.doc;
+        resolve()
+            .then(({ additionalTextEdits }) => {
+                if (additionalTextEdits && view.state.doc === doc) this.applyTextEdits(additionalTextEdits);
+            })
+            .catch((e) => console.error(e));
     }
-}
 
-interface LanguageServerBaseOptions {
-    rootUri: string | null;
-    workspaceFolders: LSP.WorkspaceFolder[] | null;
-    documentUri: string;
-    languageId: string;
-    prefix: string;
-    suffix: string;
-}
+    async requestNavigation(
+        view: EditorView,
+        method: NavigationMethod,
+        { line, character }: { line: number; character: number }
+    ): Promise<boolean> {
+        if (!this.client.ready || !this.client.capabilities![NavigationProviderMap[method]]) return false;
+        this.sendChange({
+            documentText: view.state.doc,
+        });
 
-interface LanguageServerClientOptions extends LanguageServerBaseOptions {
-    transport: Transport,
-    autoClose?: boolean;
-}
+        let result: LocationResult;
+        try {
+            result = await this.client.textDocumentNavigation(method, {
+                textDocument: { uri: this.documentUri },
+                position: { line, character },
+            });
+        } catch (e) {
+            console.error(e);
+            return false;
+        }
+        const locations = normalizeLocations(result);
+        if (locations.length === 0) return false;
+        if (locations.length === 1) {
+            this.navigate(view, locations[0]);
+            return true;
+        }
 
-interface LanguageServerOptions extends LanguageServerClientOptions {
-    client?: LanguageServerClient;
-    allowHTMLContent?: boolean;
-}
+        view.dispatch({
+            effects: setPicker.of({
+                title: `${locations.length} locations`,
+                items: locations.map((location) => ({
+                    ...this.describeLocation(view, location),
+                    select: () => this.navigate(view, location),
+                })),
+            }),
+        });
+        return true;
+    }
 
-interface LanguageServerWebsocketOptions extends LanguageServerBaseOptions {
-    serverUri: `ws://${string}` | `wss://${string}`;
-}
+    // The editor showing a range of the document, which is another one for
+    // ranges in other regions of a virtual document
+    pluginShowing(range: LSP.Range): LanguageServerPlugin | null {
+        if (this.region) return this.region.document.pluginAt(range);
+        return rangeToOffsets(this.view.state.doc, this.prefix, this.suffix, range) ? this : null;
+    }
 
-export function languageServer(options: LanguageServerWebsocketOptions){
+    navigate(view: EditorView, { uri, range }: LSP.Location) {
+        if (uri !== this.documentUri) {
+            this.options.onNavigate?.(uri, range);
+            return;
+        }
+        const plugin = this.pluginShowing(range);
+        if (plugin !== this) {
+            plugin?.navigate(plugin.view, { uri, range });
+            return;
+        }
+        const from = posToOffset(view.state.doc, this.prefix, range.start);
+        const to = posToOffset(view.state.doc, this.prefix, range.end);
+        view.dispatch({
+            selection: { anchor: from, head: to },
+            scrollIntoView: true,
+        });
+        view.focus();
+    }
+
+    describeLocation(view: EditorView, { uri, range }: LSP.Location): { label: string; detail: string } {
+        const plugin = uri === this.documentUri ? this.pluginShowing(range) : null;
+        if (plugin && plugin !== this) return plugin.describeLocation(plugin.view, { uri, range });
+        if (uri !== this.documentUri) {
+            const filename = uri.slice(uri.lastIndexOf('/') + 1);
+            return {
+                label: this.client.documentLine(uri, range.start.line)?.trim() || filename,
+                detail: `${filename}:${range.start.line + 1}:${range.start.character + 1}`,
+            };
+        }
+        const line = view.state.doc.lineAt(posToOffset(view.state.doc, this.prefix, range.start));
+        return {
+            label: line.text.trim() || `Line ${line.number}`,
+            detail: `${line.number}:${range.start.character + 1}`,
+        };
+    }
+
+    async requestReferences(view: EditorView): Promise<boolean> {
+        if (!this.client.ready || !this.client.capabilities!.referencesProvider) return false;
+        this.sendChange({
+            documentText: view.state.doc,
+        });
+
+        const doc = view.state.doc;
+        let result: LSP.Location[] | null;
+        try {
+            result = await this.client.textDocumentReferences({
+                textDocument: { uri: this.documentUri },
+                position: offsetToPos(doc, this.prefix, view.state.selection.main.head),
+                context: { includeDeclaration: this.options.includeDeclaration ?? true },
+            });
+        } catch (e) {
+            console.error(e);
+            return false;
+        }
+        if (view.state.doc !== doc) return false;
+
+        // References in the hidden prefix and suffix can't be shown
+        const groups = new Map<string, LSP.Location[]>();
+        for (const location of result ?? []) {
+            if (location.uri === this.documentUri && !this.pluginShowing(location.range)) continue;
+            if (!groups.has(location.uri)) groups.set(location.uri, []);
+            groups.get(location.uri)!.push(location);
+        }
+        const count = Array.from(groups.values()).reduce((count, group) => count + group.length, 0);
+
+        view.dispatch({
+            effects: setTreePanel.of({
+                title: `${count} reference${count === 1 ? '' : 's'}`,
+                items: Array.from(groups, ([uri, locations]) => ({
+                    label: uri.slice(uri.lastIndexOf('/') + 1),
+                    detail: uri,
+                    children: locations.map((location) => ({
+                        ...this.describeLocation(view, location),
+                        select: () => this.navigate(view, location),
+                    })),
+                })),
+            }),
+        });
+        return true;
+    }
+
+    // Shows the calls to or from the function at the cursor in a tree, whose
+    // items load the next level of calls when expanded
+    async requestCallHierarchy(view: EditorView, direction: 'incoming' | 'outgoing'): Promise<boolean> {
+        if (!this.client.ready || !this.client.capabilities!.callHierarchyProvider) return false;
+        this.sendChange({
+            documentText: view.state.doc,
+        });
+
+        const doc = view.state.doc;
+        let items: LSP.CallHierarchyItem[] | null;
+        try {
+            items = await this.client.textDocumentPrepareCallHierarchy({
+                textDocument: { uri: this.documentUri },
+                position: offsetToPos(doc, this.prefix, view.state.selection.main.head),
+            });
+        } catch (e) {
+            console.error(e);
+            return false;
+        }
+        if (!items?.length || view.state.doc !== doc) return false;
+
+        view.dispatch({
+            effects: setTreePanel.of({
+                title: direction === 'incoming' ? 'Incoming calls' : 'Outgoing calls',
+                items: items.map((item) => this.callHierarchyTreeItem(view, item, direction)),
+            }),
+        });
+        return true;
+    }
+
+    callHierarchyTreeItem(
+        view: EditorView,
+        item: LSP.CallHierarchyItem,
+        direction: 'incoming' | 'outgoing'
+    ): TreeItem {
+        return {
+            ...this.hierarchyTreeItem(view, item),
+            loadChildren: async () => {
+                if (direction === 'incoming') {
+                    const calls = await this.client.callHierarchyIncomingCalls({ item });
+                    return (calls ?? []).map(({ from }) => this.callHierarchyTreeItem(view, from, direction));
+                }
+                const calls = await this.client.callHierarchyOutgoingCalls({ item });
+                return (calls ?? []).map(({ to }) => this.callHierarchyTreeItem(view, to, direction));
+            },
+        };
+    }
+
+    // Shows the supertypes or subtypes of the type at the cursor in a tree
+    async requestTypeHierarchy(view: EditorView, direction: 'supertypes' | 'subtypes'): Promise<boolean> {
+        if (!this.client.ready || !this.client.capabilities!.typeHierarchyProvider) return false;
+        this.sendChange({
+            documentText: view.state.doc,
+        });
+
+        const doc = view.state.doc;
+        let items: LSP.TypeHierarchyItem[] | null;
+        try {
+            items = await this.client.textDocumentPrepareTypeHierarchy({
+                textDocument: { uri: this.documentUri },
+                position: offsetToPos(doc, this.prefix, view.state.selection.main.head),
+            });
+        } catch (e) {
+            console.error(e);
+            return false;
+        }
+        if (!items?.length || view.state.doc !== doc) return false;
+
+        view.dispatch({
+            effects: setTreePanel.of({
+                title: direction === 'supertypes' ? 'Supertypes' : 'Subtypes',
+                items: items.map((item) => this.typeHierarchyTreeItem(view, item, direction)),
+            }),
+        });
+        return true;
+    }
+
+    typeHierarchyTreeItem(
+        view: EditorView,
+        item: LSP.TypeHierarchyItem,
+        direction: 'supertypes' | 'subtypes'
+    ): TreeItem {
+        return {
+            ...this.hierarchyTreeItem(view, item),
+            loadChildren: async () => {
+                const types = direction === 'supertypes'
+                    ? await this.client.typeHierarchySupertypes({ item })
+                    : await this.client.typeHierarchySubtypes({ item });
+                return (types ?? []).map((type) => this.typeHierarchyTreeItem(view, type, direction));
+            },
+        };
+    }
+
+    hierarchyTreeItem(view: EditorView, item: LSP.CallHierarchyItem | LSP.TypeHierarchyItem): TreeItem {
+        const location = { uri: item.uri, range: item.selectionRange };
+        const { detail } = this.describeLocation(view, location);
+        return {
+            label: item.name,
+            detail: item.detail ? `${item.detail} ${detail}` : detail,
+            select: () => this.navigate(view, location),
+        };
+    }
+
+    async requestDocumentSymbols(): Promise<DocumentSymbolItem[] | null> {
+        if (!this.client.ready || !this.client.capabilities!.documentSymbolProvider) return null;
+        // Sending pending changes refreshes the outline, which must not
+        // supersede this request
+        await this.sendChange({
+            documentText: this.view.state.doc,
+        });
+
+        const id = ++this.documentSymbolsRequest;
+        const doc = this.view.state.doc;
+        const textDocument = { uri: this.documentUri };
+        const result = await this.documentRequest('textDocument/documentSymbol', { textDocument }, () =>
+            this.client.textDocumentDocumentSymbol({ textDocument }));
+        if (id !== this.documentSymbolsRequest || textDocument.uri !== this.documentUri) return null;
+        if (this.view.state.doc !== doc) return null;
+
+        const symbols = this.documentSymbolItems(doc, result ?? []);
+        this.view.dispatch({ effects: setDocumentSymbols.of(symbols) });
+        return symbols;
+    }
+
+    // Ranges are asked for once per document version, and mapped through
+    // edits until the server sends the ranges of the new version
+    async requestFoldingRanges() {
+        if (!this.client.ready || !this.client.capabilities?.foldingRangeProvider) return;
+        // Pending changes are sent first, which asks for ranges again
+        if (this.documentDirty) return;
+        const version = this.documentVersion;
+        if (version === this.foldingRangesVersion) return;
+        const doc = this.view.state.doc;
+        const textDocument = { uri: this.documentUri };
+
+        let ranges: LSP.FoldingRange[] | null;
+        try {
+            ranges = await this.documentRequest('textDocument/foldingRange', { textDocument }, (signal) =>
+                this.client.textDocumentFoldingRange({ textDocument }, signal), 'foldingRanges');
+        } catch (e) {
+            if (!isCancelled(e)) console.error(e);
+            return;
+        }
+        if (textDocument.uri !== this.documentUri || version !== this.documentVersion) return;
+        if (this.view.state.doc !== doc) return;
+        this.foldingRangesVersion = version;
+        this.view.dispatch({
+            effects: setFoldingRanges.of(
+                (ranges ?? []).flatMap((range) => foldingRangeItem(doc, this.prefix, range) ?? [])
+            ),
+        });
+    }
+
+    // Keeps the outline up to date once the host has asked for it
+    refreshDocumentSymbols() {
+        if (this.view.state.field(documentSymbolsField, false) == null) return;
+        this.requestDocumentSymbols().catch((e) => console.error(e));
+    }
+
+    // Servers answer either with a tree of DocumentSymbol or with a flat list
+    // of SymbolInformation, which is kept flat. Symbols in the hidden prefix
+    // and suffix are dropped.
+    documentSymbolItems(
+        doc: Text,
+        symbols: (LSP.DocumentSymbol | LSP.SymbolInformation)[]
+    ): DocumentSymbolItem[] {
+        return symbols.flatMap((symbol) => {
+            if ('location' in symbol) {
+                if (symbol.location.uri !== this.documentUri) return [];
+                const range = rangeToOffsets(doc, this.prefix, this.suffix, symbol.location.range);
+                if (!range) return [];
+                return [{
+                    name: symbol.name,
+                    detail: symbol.containerName,
+                    kind: symbol.kind,
+                    range,
+                    selectionRange: range,
+                    children: [],
+                }];
+            }
+            const range = rangeToOffsets(doc, this.prefix, this.suffix, symbol.range);
+            if (!range) return [];
+            return [{
+                name: symbol.name,
+                detail: symbol.detail,
+                kind: symbol.kind,
+                range,
+                selectionRange: rangeToOffsets(doc, this.prefix, this.suffix, symbol.selectionRange) ?? range,
+                children: this.documentSymbolItems(doc, symbol.children ?? []),
+            }];
+        });
+    }
+
+    async requestGoToSymbol(view: EditorView): Promise<boolean> {
+        let symbols: DocumentSymbolItem[] | null;
+        try {
+            symbols = await this.requestDocumentSymbols();
+        } catch (e) {
+            console.error(e);
+            return false;
+        }
+        if (!symbols?.length) return false;
+        const doc = view.state.doc;
+
+        const items: PickerItem[] = [];
+        const addItems = (symbols: DocumentSymbolItem[], container?: string) => {
+            for (const symbol of symbols) {
+                items.push({
+                    label: symbol.name,
+                    detail: [SymbolKindMap[symbol.kind], container].filter(Boolean).join(' · '),
+                    select: () => {
+                        if (view.state.doc !== doc) return;
+                        view.dispatch({
+                            selection: { anchor: symbol.selectionRange.from, head: symbol.selectionRange.to },
+                            scrollIntoView: true,
+                        });
+                    },
+                });
+                addItems(symbol.children, symbol.name);
+            }
+        };
+        addItems(symbols);
+
+        view.dispatch({
+            effects: setPicker.of({ title: 'Go to symbol', items, filter: true }),
+        });
+        return true;
+    }
+
+    requestWorkspaceSymbols(view: EditorView): boolean {
+        if (!this.client.ready || !this.client.capabilities!.workspaceSymbolProvider) return false;
+
+        const search = async (query: string): Promise<PickerItem[]> => {
+            this.sendChange({
+                documentText: view.state.doc,
+            });
+            const result = await this.client.workspaceSymbol({ query });
+            return (result ?? []).map((symbol) => {
+                const { uri, range } = symbol.location;
+                const filename = uri.slice(uri.lastIndexOf('/') + 1);
+                return {
+                    label: symbol.name,
+                    detail: [
+                        SymbolKindMap[symbol.kind],
+                        symbol.containerName,
+                        `${filename}:${range.start.line + 1}`,
+                    ].filter(Boolean).join(' · '),
+                    select: () => this.navigate(view, symbol.location),
+                };
+            });
+        };
+
+        view.dispatch({
+            effects: setPicker.of({ title: 'Workspace symbols', items: [], search }),
+        });
+        return true;
+    }
+
+    async requestCodeActions(view: EditorView): Promise<boolean> {
+        if (!this.client.ready || !this.client.capabilities!.codeActionProvider) return false;
+        this.sendChange({
+            documentText: view.state.doc,
+        });
+
+        const { from, to } = view.state.selection.main;
+        const range = {
+            start: offsetToPos(view.state.doc, this.prefix, from),
+            end: offsetToPos(view.state.doc, this.prefix, to),
+        };
+        const diagnostics = this.diagnostics.filter(
+            (diagnostic) =>
+                posToOffset(view.state.doc, this.prefix, diagnostic.range.start) <= to &&
+                posToOffset(view.state.doc, this.prefix, diagnostic.range.end) >= from
+        );
+        let result: (LSP.Command | LSP.CodeAction)[] | null;
+        try {
+            result = await this.client.textDocumentCodeAction({
+                textDocument: { uri: this.documentUri },
+                range,
+                context: { diagnostics },
+            });
+        } catch (e) {
+            console.error(e);
+            return false;
+        }
+        const actions = (result ?? [])
+            .filter((action) => !('disabled' in action && action.disabled))
+            .sort((a, b) => Number('isPreferred' in b && !!b.isPreferred) - Number('isPreferred' in a && !!a.isPreferred));
+        if (actions.length === 0) return false;
+
+        view.dispatch({
+            effects: setPicker.of({
+                title: 'Code actions',
+                items: actions.map((action) => ({
+                    label: action.title,
+                    detail: 'kind' in action ? action.kind : undefined,
+                    select: () => this.applyCodeAction(view, action),
+                })),
+            }),
+        });
+        return true;
+    }
+
+    async applyCodeAction(view: EditorView, action: LSP.Command | LSP.CodeAction) {
+        try {
+            if (typeof action.command === 'string') {
+                await this.executeCommand(action as LSP.Command);
+                return;
+            }
+            let codeAction = action as LSP.CodeAction;
+            const provider = this.client.capabilities!.codeActionProvider;
+            if (!codeAction.edit && typeof provider === 'object' && provider.resolveProvider) {
+                codeAction = await this.client.codeActionResolve(codeAction);
+            }
+            if (codeAction.edit) this.client.applyWorkspaceEdit(codeAction.edit);
+            if (codeAction.command) await this.executeCommand(codeAction.command);
+        } catch (e) {
+            console.error(e);
+        }
+    }
+
+    async executeCommand({ command, arguments: args }: LSP.Command) {
+        await this.client.workspaceExecuteCommand({ command, arguments: args });
+    }
+
+    applyTextEdits(edits: LSP.TextEdit[]) {
+        const changes = this.textEditChanges(this.view.state.doc, edits);
+        if (changes.length === 0) return;
+        this.view.dispatch({ changes, userEvent: 'edit' });
+    }
+
+    textEditChanges(doc: Text, edits: LSP.TextEdit[]) {
+        return edits.flatMap((edit) => textEditToChange(doc, this.prefix, this.suffix, edit) ?? []);
+    }
+
+    async requestFormatting(view: EditorView) {
+        if (!this.client.ready || !this.client.capabilities!.documentFormattingProvider) return;
+        this.sendChange({
+            documentText: view.state.doc,
+        });
+
+        const doc = view.state.doc;
+        try {
+            const edits = await this.client.textDocumentFormatting({
+                textDocument: { uri: this.documentUri },
+                options: formattingOptions(view.state),
+            });
+            if (edits && view.state.doc === doc) this.applyTextEdits(edits);
+        } catch (e) {
+            console.error(e);
+        }
+    }
+
+    async requestRangeFormatting(view: EditorView) {
+        const { from, to } = view.state.selection.main;
+        if (from === to) return this.requestFormatting(view);
+        if (!this.client.ready || !this.client.capabilities!.documentRangeFormattingProvider) return;
+        this.sendChange({
+            documentText: view.state.doc,
+        });
+
+        const doc = view.state.doc;
+        try {
+            const edits = await this.client.textDocumentRangeFormatting({
+                textDocument: { uri: this.documentUri },
+                range: {
+                    start: offsetToPos(doc, this.prefix, from),
+                    end: offsetToPos(doc, this.prefix, to),
+                },
+                options: formattingOptions(view.state),
+            });
+            if (edits && view.state.doc === doc) this.applyTextEdits(edits);
+        } catch (e) {
+            console.error(e);
+        }
+    }
+
+    updateOnTypeFormatting(update: ViewUpdate) {
+        const provider = this.client.capabilities?.documentOnTypeFormattingProvider;
+        if (!this.client.ready || !provider) return;
+        const ch = typedCharacter(update);
+        if (!ch || (ch !== provider.firstTriggerCharacter && !provider.moreTriggerCharacter?.includes(ch))) return;
+        this.requestOnTypeFormatting(update.view, ch);
+    }
+
+    async requestOnTypeFormatting(view: EditorView, ch: string) {
+        this.sendChange({
+            documentText: view.state.doc,
+        });
+
+        const doc = view.state.doc;
+        try {
+            const edits = await this.client.textDocumentOnTypeFormatting({
+                textDocument: { uri: this.documentUri },
+                position: offsetToPos(doc, this.prefix, view.state.selection.main.head),
+                ch,
+                options: formattingOptions(view.state),
+            });
+            // Drop the edits if the user kept typing in the meantime
+            if (edits && view.state.doc === doc) this.applyTextEdits(edits);
+        } catch (e) {
+            console.error(e);
+        }
+    }
+
+    async requestRename(view: EditorView): Promise<boolean> {
+        const provider = this.client.capabilities?.renameProvider;
+        if (!this.client.ready || !provider) return false;
+        this.sendChange({
+            documentText: view.state.doc,
+        });
+
+        const pos = view.state.selection.main.head;
+        const position = offsetToPos(view.state.doc, this.prefix, pos);
+        let range: { from: number; to: number } | null = null;
+        let placeholder: string | undefined;
+        if (typeof provider === 'object' && provider.prepareProvider) {
+            let result: PrepareRenameResult;
+            try {
+                result = await this.client.textDocumentPrepareRename({
+                    textDocument: { uri: this.documentUri },
+                    position,
+                });
+            } catch (e) {
+                // Such as when the element at the cursor can't be renamed
+                console.error(e);
+                return false;
+            }
+            if (!result) return false;
+            if ('range' in result) {
+                range = rangeToOffsets(view.state.doc, this.prefix, this.suffix, result.range);
+                placeholder = result.placeholder;
+            } else if ('start' in result) {
+                range = rangeToOffsets(view.state.doc, this.prefix, this.suffix, result);
+            }
+        }
+        range ??= view.state.wordAt(pos);
+        if (!range) return false;
+        placeholder ??= view.state.sliceDoc(range.from, range.to);
+
+        const dom = document.createElement('div');
+        dom.className = 'cm-lsp-rename';
+        const input = dom.appendChild(document.createElement('input'));
+        input.value = placeholder;
+        const close = () => {
+            if (view.state.field(renameField, false) == null) return;
+            view.dispatch({ effects: setRename.of(null) });
+            view.focus();
+        };
+        input.addEventListener('keydown', (event) => {
+            if (event.key === 'Enter') {
+                event.preventDefault();
+                const newName = input.value;
+                close();
+                if (newName && newName !== placeholder) this.rename(position, newName);
+            } else if (event.key === 'Escape') {
+                event.preventDefault();
+                close();
+            }
+        });
+        input.addEventListener('blur', close);
+
+        view.dispatch({
+            effects: setRename.of({
+                pos: range.from,
+                create: () => ({
+                    dom,
+                    mount: () => {
+                        input.focus();
+                        input.select();
+                    },
+                }),
+                above: true,
+            }),
+        });
+        return true;
+    }
+
+    async rename(position: LSP.Position, newName: string) {
+        try {
+            const edit = await this.client.textDocumentRename({
+                textDocument: { uri: this.documentUri },
+                position,
+                newName,
+            });
+            if (edit) this.client.applyWorkspaceEdit(edit);
+        } catch (e) {
+            console.error(e);
+        }
+    }
+
+    updateProgress() {
+        if (this.options.progressIndicator === false) return;
+        this.view.dispatch({ effects: setProgress.of(progressItems(this.client)) });
+    }
+
+    showMessage(message: LSP.ShowMessageParams) {
+        this.view.dispatch({ effects: addMessage.of(message) });
+    }
+
+    processNotification(notification: Notification) {
+        try {
+            switch (notification.method) {
+                case 'textDocument/publishDiagnostics':
+                    this.processDiagnostics(notification.params);
+            }
+        } catch (error) {
+            console.error(error);
+        }
+    }
+
+    processDiagnostics(params: PublishDiagnosticsParams) {
+        if (params.uri !== this.documentUri) return;
+
+        this.publishedDiagnostics = params.diagnostics;
+        this.setDiagnostics();
+    }
+
+    setDiagnostics() {
+        const diagnostics = this.publishedDiagnostics.concat(this.pulledDiagnostics);
+        this.diagnostics = diagnostics;
+        this.view.dispatch(setDiagnostics(this.view.state, this.createDiagnostics(diagnostics, [])));
+        this.requestQuickFixes(diagnostics);
+    }
+
+    // Asks for the diagnostics of the document, for servers that provide
+    // them on request rather than publishing them
+    async requestPullDiagnostics() {
+        const provider = this.client.capabilities?.diagnosticProvider;
+        if (!this.client.ready || !provider) return;
+        // Pending changes are sent first, which asks for diagnostics again
+        if (this.documentDirty) return;
+        const version = this.documentVersion;
+        const textDocument = { uri: this.documentUri };
+
+        const params = {
+            textDocument,
+            identifier: typeof provider === 'object' ? provider.identifier : undefined,
+            previousResultId: this.diagnosticsResultId,
+        };
+
+        let report: LSP.DocumentDiagnosticReport;
+        try {
+            report = await this.documentRequest('textDocument/diagnostic', params, (signal) =>
+                this.client.textDocumentDiagnostic(params, signal), 'diagnostics');
+        } catch (e) {
+            if (!isCancelled(e)) console.error(e);
+            return;
+        }
+        if (textDocument.uri !== this.documentUri || version !== this.documentVersion) return;
+        this.diagnosticsResultId = report.resultId;
+        if (report.kind === DocumentDiagnosticReportKind.Full) {
+            this.pulledDiagnostics = report.items;
+            this.setDiagnostics();
+        }
+    }
+
+    renderDiagnostic(view: EditorView, diagnostic: LSP.Diagnostic) {
+        const dom = this.renderDocumentation({ kind: 'plaintext', value: diagnostic.message });
+        if (diagnostic.code !== undefined) {
+            const code = dom.appendChild(document.createElement('div'));
+            code.className = 'cm-lsp-diagnostic-code';
+            const href = diagnostic.codeDescription?.href;
+            const label = href ? code.appendChild(this.renderLink(href)) : code;
+            label.textContent = String(diagnostic.code);
+        }
+        if (diagnostic.relatedInformation?.length) {
+            const list = dom.appendChild(document.createElement('ul'));
+            list.className = 'cm-lsp-diagnostic-related';
+            for (const { location, message } of diagnostic.relatedInformation) {
+                const item = list.appendChild(document.createElement('li'));
+                const link = item.appendChild(document.createElement('a'));
+                link.textContent = this.describeLocation(view, location).detail;
+                link.title = location.uri;
+                link.addEventListener('click', (event) => {
+                    event.preventDefault();
+                    this.navigate(view, location);
+                });
+                item.append(` ${message}`);
+            }
+        }
+        return dom;
+    }
+
+    async requestQuickFixes(diagnostics: LSP.Diagnostic[]) {
+        if (!this.client.capabilities!.codeActionProvider || diagnostics.length === 0) return;
+        const doc = this.view.state.doc;
+
+        let actions: (LSP.Command | LSP.CodeAction)[] | null;
+        try {
+            actions = await this.client.textDocumentCodeAction({
+                textDocument: { uri: this.documentUri },
+                range: {
+                    start: { line: 0, character: 0 },
+                    end: offsetToPos(doc, this.prefix, doc.length),
+                },
+                context: { diagnostics, only: ['quickfix'] },
+            });
+        } catch (e) {
+            console.error(e);
+            return;
+        }
+        // Diagnostics are stale if newer ones arrived or the document changed in the meantime
+        if (!actions?.length || this.diagnostics !== diagnostics || this.view.state.doc !== doc) return;
+        this.view.dispatch(setDiagnostics(this.view.state, this.createDiagnostics(diagnostics, actions)));
+    }
+
+    createDiagnostics(
+        diagnostics: LSP.Diagnostic[],
+        actions: (LSP.Command | LSP.CodeAction)[]
+    ): LintDiagnostic[] {
+        return diagnostics
+            .map((diagnostic) => ({
+                // Diagnostics in the hidden prefix and suffix are dropped
+                ...this.shownRange(this.view.state.doc, diagnostic.range),
+                severity: ({
+                    [DiagnosticSeverity.Error]: 'error',
+                    [DiagnosticSeverity.Warning]: 'warning',
+                    [DiagnosticSeverity.Information]: 'info',
+                    [DiagnosticSeverity.Hint]: 'hint',
+                } as const)[diagnostic.severity ?? DiagnosticSeverity.Error],
+                markClass: diagnosticMarkClass(diagnostic),
+                source: diagnostic.source,
+                message: diagnostic.message,
+                renderMessage: (view: EditorView) => this.renderDiagnostic(view, diagnostic),
+                actions: actions
+                    .filter((action) =>
+                        'diagnostics' in action &&
+                        action.diagnostics?.some((d) => isSameDiagnostic(d, diagnostic))
+                    )
+                    .map((action) => ({
+                        name: action.title,
+                        apply: (view: EditorView) => this.applyCodeAction(view, action),
+                    })),
+            }))
+            .filter(({ from, to }) => from !== null && to !== null && from !== undefined && to !== undefined)
+            .sort((a, b) => {
+                switch (true) {
+                    case a.from < b.from:
+                        return -1;
+                    case a.from > b.from:
+                        return 1;
+                }
+                return 0;
+            });
+    }
+}
+
+interface LanguageServerBaseOptions {
+    rootUri: string | null;
+    workspaceFolders: LSP.WorkspaceFolder[] | null;
+    documentUri: string;
+    languageId: string;
+    prefix: string;
+    suffix: string;
+}
+
+interface LanguageServerClientOptions extends LanguageServerBaseOptions {
+    transport: Transport,
+    autoClose?: boolean;
+    // Creates a new transport to reconnect with after the connection drops.
+    // WebSocket transports reconnect to the same URI, and worker transports
+    // created from a script URL start a new worker, unless this is false.
+    reconnect?: (() => Transport) | false;
+    maxReconnectAttempts?: number;
+    // Milliseconds to wait for a response, by default and by method.
+    timeout?: number;
+    timeouts?: { [method: string]: number };
+    // Answers workspace/configuration requests, looked up by section.
+    settings?: LSP.LSPAny;
+    // Called with edits to documents not open in any editor attached to the client.
+    onExternalEdit?: (uri: string, edits: LSP.TextEdit[]) => void;
+    // Asks the user to pick one of the actions offered by the server.
+    onShowMessageRequest?: (
+        params: LSP.ShowMessageRequestParams
+    ) => LSP.MessageActionItem | null | Promise<LSP.MessageActionItem | null>;
+    // Shows a message from the server. By default, editors show it in a panel.
+    onShowMessage?: (params: LSP.ShowMessageParams) => void;
+    // How many logged and shown messages the client keeps, 1000 by default.
+    logSize?: number;
+}
+
+interface LanguageServerOptions extends LanguageServerClientOptions {
+    client?: LanguageServerClient;
+    /** @deprecated Markdown is always rendered to sanitized DOM */
+    allowHTMLContent?: boolean;
+    // The language to highlight code blocks in documentation with, by the
+    // name given in the markdown. Defaults to the language of the editor for
+    // code in the document's language.
+    codeLanguage?: (name: string) => Language | null | undefined;
+    // Called when a link in documentation is clicked. Without it, only web
+    // and mail links are shown, and open in a new tab.
+    onLink?: (url: string) => void;
+    // Milliseconds to wait after an edit before sending it to the server.
+    changesDelay?: number;
+    // Highlight the document with semantic tokens from the server.
+    semanticTokens?: boolean;
+    // Show inlay hints initially, they can be toggled with `toggleInlayHints`.
+    inlayHints?: boolean;
+    // Whether find references lists the declaration too, defaults to true.
+    includeDeclaration?: boolean;
+    // Called for locations outside this document, e.g. to open another tab.
+    onNavigate?: (uri: string, range: LSP.Range) => void;
+    // Show work in progress on the server in a panel, defaults to true.
+    progressIndicator?: boolean;
+    // The region of a virtual document shown in the editor, set by
+    // `VirtualRegion.extension`.
+    region?: VirtualRegion;
+}
+
+interface LanguageServerWebsocketOptions extends LanguageServerBaseOptions {
+    serverUri: `ws://${string}` | `wss://${string}`;
+}
+
+export function languageServer(options: LanguageServerWebsocketOptions){
     const serverUri = options.serverUri;
     delete options.serverUri;
     return languageServerWithTransport({
         ...options,
-        transport: new WebSocketTransport(serverUri)
+        transport: new WebSocketMessageTransport(serverUri)
     })
 }
 
-export function languageServerWithTransport(options: LanguageServerOptions) {
-    let plugin: LanguageServerPlugin | null = null;
-    let prefixTxt: Text = Text.of(options.prefix?.split('\n')||['']);
-    let suffixTxt: Text = Text.of(options.suffix?.split('\n')||['']);
+export function languageServerWithTransport(options: LanguageServerOptions) {
+    let prefixTxt: Text = Text.of(options.prefix?.split('\n')||['']);
+    let suffixTxt: Text = Text.of(options.suffix?.split('\n')||['']);
+
+    return [
+        client.of(options.client || new LanguageServerClient({...options, autoClose: true})),
+        documentUri.of(options.documentUri),
+        languageId.of(options.languageId),
+        prefix.of(prefixTxt),
+        suffix.of(suffixTxt),
+        pluginOptions.of(options),
+        languageServerPlugin,
+        virtualRegion.of(options.region ?? null),
+        hoverTooltip((view, pos) => {
+            const plugin = view.plugin(languageServerPlugin);
+            return plugin?.requestHoverTooltip(view, plugin.positionAt(view.state.doc, pos)) ?? null;
+        }),
+        autocompletion({
+            override: [
+                async (context) => {
+                    const plugin = context.view?.plugin(languageServerPlugin);
+                    if (plugin == null) return null;
+
+                    const { state, pos, explicit } = context;
+                    const line = state.doc.lineAt(pos);
+                    let trigKind: CompletionTriggerKind =
+                        CompletionTriggerKind.Invoked;
+                    let trigChar: string | undefined;
+                    if (!explicit && plugin.completionIncomplete) {
+                        trigKind = CompletionTriggerKind.TriggerForIncompleteCompletions;
+                    } else if (!explicit) {
+                        if (plugin.client.capabilities?.completionProvider?.triggerCharacters?.includes(
+                                line.text[pos - line.from - 1])
+                            ) {
+                            trigKind = CompletionTriggerKind.TriggerCharacter;
+                            trigChar = line.text[pos - line.from - 1];
+                        } else if (!context.matchBefore(/\w+$/)) return null;
+                    }
+                    return await plugin.requestCompletion(
+                        context,
+                        plugin.positionAt(state.doc, pos),
+                        {
+                            triggerKind: trigKind,
+                            triggerCharacter: trigChar,
+                        }
+                    );
+                },
+            ],
+            optionClass: (completion) =>
+                (completion as LSPCompletion).deprecated ? 'cm-lsp-completion-deprecated' : '',
+        }),
+        completionTheme,
+        documentationTheme,
+        diagnosticsTheme,
+        pickerField,
+        pickerTheme,
+        treePanelField,
+        treePanelTheme,
+        signatureHelpField,
+        signatureHelpTheme,
+        renameField,
+        semanticTokensField,
+        semanticTokensTheme,
+        documentHighlightField,
+        documentHighlightTheme,
+        documentSymbolsField,
+        foldingRangesField,
+        foldingRangeService,
+        inlayHintsField,
+        inlayHintsTheme,
+        progressField,
+        messagesField,
+        statusTheme,
+        EditorView.domEventHandlers({
+            mousedown: (event, view) => {
+                const plugin = view.plugin(languageServerPlugin);
+                if (plugin == null || !(isMac ? event.metaKey : event.ctrlKey)) return false;
+                // Without a definition to go to, the click adds a cursor as usual
+                if (!plugin.client.ready || !plugin.client.capabilities?.definitionProvider) return false;
+                const pos = view.posAtCoords({ x: event.clientX, y: event.clientY });
+                if (pos === null || !view.state.wordAt(pos)) return false;
+                event.preventDefault();
+                plugin.requestNavigation(
+                    view,
+                    'textDocument/definition',
+                    plugin.positionAt(view.state.doc, pos)
+                );
+                return true;
+            },
+        }),
+        keymap.of(
+            ([
+                ['F12', 'textDocument/definition'],
+                ['Alt-F12', 'textDocument/declaration'],
+                ['Mod-F12', 'textDocument/implementation'],
+                ['Shift-Mod-F12', 'textDocument/typeDefinition'],
+            ] as [string, NavigationMethod][]).map(([key, method]) => ({
+                key,
+                run: (view) => {
+                    const plugin = view.plugin(languageServerPlugin);
+                    if (plugin == null) return false;
+                    plugin.requestNavigation(
+                        view,
+                        method,
+                        plugin.positionAt(view.state.doc, view.state.selection.main.head)
+                    );
+                    return true;
+                },
+            }))
+        ),
+        keymap.of([
+            {
+                key: 'Mod-Shift-Space',
+                run: (view) => {
+                    const plugin = view.plugin(languageServerPlugin);
+                    if (plugin == null) return false;
+                    plugin.requestSignatureHelp(view, {
+                        triggerKind: SignatureHelpTriggerKind.Invoked,
+                        isRetrigger: view.state.field(signatureHelpField) != null,
+                    });
+                    return true;
+                },
+            },
+            {
+                key: 'Escape',
+                run: (view) => view.plugin(languageServerPlugin)?.closeSignatureHelp(view) ?? false,
+            },
+            {
+                key: 'Shift-F12',
+                run: findReferences,
+            },
+            {
+                key: 'Shift-Alt-h',
+                run: showIncomingCalls,
+            },
+            {
+                key: 'Mod-Shift-o',
+                run: goToSymbol,
+            },
+            {
+                key: 'Mod-t',
+                run: goToWorkspaceSymbol,
+            },
+            {
+                key: 'F7',
+                run: nextDocumentHighlight,
+            },
+            {
+                key: 'Shift-F7',
+                run: previousDocumentHighlight,
+            },
+            {
+                key: 'F2',
+                run: (view) => {
+                    const plugin = view.plugin(languageServerPlugin);
+                    if (plugin == null) return false;
+                    plugin.requestRename(view);
+                    return true;
+                },
+            },
+            {
+                key: 'Mod-.',
+                run: (view) => {
+                    const plugin = view.plugin(languageServerPlugin);
+                    if (plugin == null) return false;
+                    plugin.requestCodeActions(view);
+                    return true;
+                },
+            },
+        ]),
+    ];
+}
+
+// A document on the server made of regions shown in separate editors, such as
+// the cells of a notebook. Regions follow each other in order, each preceded
+// by glue text that the server sees but the editors don't. Only regions shown
+// in an editor are part of the document.
+export class VirtualDocument implements DocumentSync {
+    public client: LanguageServerClient;
+    public version: number;
+    private regions: VirtualRegion[];
+    // Requests about the whole document that regions are waiting for, and
+    // what cancels them once the document changes
+    private pendingRequests: Map<string, Promise<unknown>>;
+    private requestsController: AbortController;
+
+    constructor(private options: LanguageServerOptions) {
+        this.client = options.client ?? new LanguageServerClient(options);
+        this.version = 0;
+        this.regions = [];
+        this.pendingRequests = new Map();
+        this.requestsController = new AbortController();
+    }
+
+    get documentUri() {
+        return this.options.documentUri;
+    }
+
+    // Adds a region at the given index, or after all others
+    addRegion({ glue = '', index = this.regions.length }: { glue?: string; index?: number } = {}) {
+        const region = new VirtualRegion(this, glue, this.options);
+        this.regions.splice(index, 0, region);
+        return region;
+    }
+
+    // Removes a region, and its text from the server unless its editor was
+    // destroyed already
+    removeRegion(region: VirtualRegion) {
+        this.detach(region);
+        const i = this.regions.indexOf(region);
+        if (i !== -1) this.regions.splice(i, 1);
+    }
+
+    // The text of the document on the server
+    text(): Text {
+        let text = Text.empty;
+        for (const region of this.regions) {
+            if (region.included) text = text.append(region.glue).append(region.text);
+        }
+        return text;
+    }
+
+    // The editor showing a range, or null for ranges starting in glue text.
+    // Where two regions meet without glue, an empty range belongs to the
+    // earlier one and others to the later one, so that each shows it once.
+    pluginAt({ start, end }: LSP.Range): LanguageServerPlugin | null {
+        const text = this.text();
+        if (start.line >= text.lines) return null;
+        const offset = Math.min(text.line(start.line + 1).from + start.character, text.length);
+        const empty = start.line === end.line && start.character === end.character;
+        let from = 0;
+        let ending: LanguageServerPlugin | null = null;
+        for (const region of this.regions) {
+            if (!region.included) continue;
+            from += region.glue.length;
+            const to = from + region.text.length;
+            if (offset >= from && offset < to) return region.plugin;
+            if (offset === to) {
+                if (empty) return region.plugin;
+                ending = ending ?? region.plugin;
+            }
+            from = to;
+        }
+        return ending;
+    }
+
+    attach(region: VirtualRegion, plugin: LanguageServerPlugin) {
+        if (region.plugin) throw new Error('A region can only be shown in one editor');
+        region.plugin = plugin;
+        region.included = false;
+    }
+
+    detach(region: VirtualRegion) {
+        if (!region.plugin) return;
+        if (!region.included || !this.client.isDocumentOpen(this.documentUri)) {
+            region.plugin = null;
+            region.included = false;
+            return;
+        }
+        // The last region closes the document
+        if (this.regions.every((other) => other === region || !other.included)) {
+            region.plugin = null;
+            region.included = false;
+            this.client.textDocumentDidClose({ textDocument: { uri: this.documentUri } }, this);
+            return;
+        }
+        const from = this.offsetOf(region);
+        this.replace(from, from + region.glue.length + region.text.length, () => {
+            region.plugin = null;
+            region.included = false;
+        });
+    }
+
+    // Opens the document with all regions shown so far, or adds the region
+    // to the document once it is open
+    open(region: VirtualRegion, text: Text) {
+        if (!region.plugin) return;
+        region.text = text;
+        if (!this.client.isDocumentOpen(this.documentUri)) {
+            for (const other of this.regions) {
+                other.included = other.plugin != null;
+                if (other.plugin && other !== region) other.text = other.plugin.resetSync();
+            }
+            this.updateSurroundings();
+            this.client.textDocumentDidOpen({
+                textDocument: {
+                    uri: this.documentUri,
+                    languageId: this.options.languageId,
+                    text: this.text().toString(),
+                    version: this.version,
+                },
+            }, this);
+        } else if (!region.included) {
+            const from = this.offsetOf(region);
+            this.replace(from, from, () => { region.included = true; }, region.plugin);
+        }
+    }
+
+    // Sends changes made in a region, already in positions of the document
+    async change(region: VirtualRegion, contentChanges: LSP.TextDocumentContentChangeEvent[], text: Text) {
+        region.text = text;
+        if (!region.included) return;
+        this.nextVersion();
+        this.updateSurroundings();
+        if (contentChanges.length === 0) return;
+        await this.send(contentChanges);
+    }
+
+    // Lets the server prepare for the document being saved, and applies the
+    // edits it asks for to the regions they fall in
+    async willSave(reason: TextDocumentSaveReason = TextDocumentSaveReason.Manual) {
+        const sync = this.client.capabilities?.textDocumentSync;
+        if (!this.client.ready || typeof sync !== 'object' || !this.client.isDocumentOpen(this.documentUri)) return;
+        await this.flushChanges();
+
+        const params = { textDocument: { uri: this.documentUri }, reason };
+        if (sync.willSave) this.client.textDocumentWillSave(params);
+        if (!sync.willSaveWaitUntil) return;
+        const version = this.version;
+        let edits: LSP.TextEdit[] | null;
+        try {
+            edits = await this.client.textDocumentWillSaveWaitUntil(params);
+        } catch (e) {
+            console.error(e);
+            return;
+        }
+        // Edits made in the meantime are sent first, and make these stale
+        await this.flushChanges();
+        if (!edits || this.version !== version) return;
+        this.applyTextEdits(edits);
+    }
+
+    // Sends a request once for all regions asking for the same at the same
+    // time, such as after a change, and hands each of them the result
+    request<T>(key: string, send: (signal: AbortSignal) => Promise<T>): Promise<T> {
+        let pending = this.pendingRequests.get(key) as Promise<T> | undefined;
+        if (!pending) {
+            pending = send(this.requestsController.signal);
+            this.pendingRequests.set(key, pending);
+            const remove = () => {
+                if (this.pendingRequests.get(key) === pending) this.pendingRequests.delete(key);
+            };
+            pending.then(remove, remove);
+        }
+        return pending;
+    }
+
+    // Applies edits to the regions showing them, each edit once
+    applyTextEdits(edits: LSP.TextEdit[]) {
+        const regionEdits = new Map<LanguageServerPlugin, LSP.TextEdit[]>();
+        for (const edit of edits) {
+            const plugin = this.pluginAt(edit.range);
+            if (plugin) regionEdits.set(plugin, [...(regionEdits.get(plugin) ?? []), edit]);
+        }
+        for (const [plugin, edits] of regionEdits) plugin.applyTextEdits(edits);
+    }
+
+    async didSave() {
+        const sync = this.client.capabilities?.textDocumentSync;
+        if (!this.client.ready || typeof sync !== 'object' || !sync.save) return;
+        if (!this.client.isDocumentOpen(this.documentUri)) return;
+        await this.flushChanges();
+        const includeText = typeof sync.save === 'object' && sync.save.includeText;
+        await this.client.textDocumentDidSave({
+            textDocument: { uri: this.documentUri },
+            text: includeText ? this.text().toString() : undefined,
+        });
+    }
+
+    setGlue(region: VirtualRegion, glue: string) {
+        const from = this.offsetOf(region);
+        const to = from + region.glue.length;
+        const update = () => { region.glue = Text.of(glue.split('\n')); };
+        if (region.included) this.replace(from, to, update);
+        else update();
+    }
+
+    async flushChanges() {
+        await Promise.all(this.regions.map((region) => region.plugin?.flushChanges()));
+    }
+
+    // Where the glue of a region starts on the server
+    private offsetOf(region: VirtualRegion) {
+        let offset = 0;
+        for (const other of this.regions) {
+            if (other === region) break;
+            if (other.included) offset += other.glue.length + other.text.length;
+        }
+        return offset;
+    }
+
+    // Requests for the previous version are outdated
+    private nextVersion() {
+        this.version++;
+        this.requestsController.abort();
+        this.requestsController = new AbortController();
+        this.pendingRequests.clear();
+    }
+
+    private updateSurroundings() {
+        const text = this.text();
+        let from = 0;
+        for (const region of this.regions) {
+            if (!region.included) continue;
+            from += region.glue.length;
+            region.plugin?.setSurroundings(
+                text.slice(0, from),
+                text.slice(from + region.text.length),
+                this.version
+            );
+            from += region.text.length;
+        }
+    }
+
+    // Replaces a range of the document by what it holds after the update
+    private async replace(from: number, to: number, update: () => void, except?: LanguageServerPlugin) {
+        const before = this.text();
+        update();
+        const after = this.text();
+        const text = after.sliceString(from, after.length - (before.length - to));
+        this.nextVersion();
+        this.updateSurroundings();
+        const plugin = this.regions.find((region) => region.included)?.plugin;
+        const syncKind = plugin?.syncKind() ?? TextDocumentSyncKind.None;
+        if (syncKind === TextDocumentSyncKind.None) return;
+        await this.send([
+            syncKind === TextDocumentSyncKind.Incremental
+                ? {
+                    range: {
+                        start: offsetToPos(before, Text.empty, from),
+                        end: offsetToPos(before, Text.empty, to),
+                    },
+                    text,
+                }
+                : { text: after.toString() },
+        ], except);
+    }
+
+    takeOverSync(version: number) {
+        this.version = version;
+        const text = this.text();
+        this.replace(0, text.length, () => {});
+    }
+
+    private async send(contentChanges: LSP.TextDocumentContentChangeEvent[], except?: LanguageServerPlugin) {
+        if (!this.client.ready || this.client.documentSync(this.documentUri) !== this) return;
+        try {
+            await this.client.textDocumentDidChange({
+                textDocument: { uri: this.documentUri, version: this.version },
+                contentChanges,
+            });
+        } catch (e) {
+            console.error(e);
+        }
+        for (const region of this.regions) {
+            if (region.included && region.plugin !== except) region.plugin?.refreshDocumentState();
+        }
+    }
+}
+
+export class VirtualRegion {
+    public glue: Text;
+    // The text of the region as last sent to the server
+    public text: Text;
+    public plugin: LanguageServerPlugin | null;
+    // Whether the server knows about the region
+    public included: boolean;
+    // Connects an editor to the region
+    public extension: Extension;
+
+    constructor(public document: VirtualDocument, glue: string, options: LanguageServerOptions) {
+        this.glue = Text.of(glue.split('\n'));
+        this.text = Text.empty;
+        this.plugin = null;
+        this.included = false;
+        this.extension = languageServerWithTransport({
+            ...options,
+            client: document.client,
+            prefix: '',
+            suffix: '',
+            region: this,
+        });
+    }
+
+    // Changes the glue text before the region
+    setGlue(glue: string) {
+        this.document.setGlue(this, glue);
+    }
+}
+
+// Switches the editor to another document, e.g. when reusing one view for
+// several files. Usually dispatched along with the new document text.
+export const setDocument = StateEffect.define<{ documentUri: string; languageId?: string }>();
+
+const pluginOptions = Facet.define<LanguageServerOptions, LanguageServerOptions>({ combine: useLast });
+
+const languageServerPlugin = ViewPlugin.define(
+    (view) => new LanguageServerPlugin(view, view.state.facet(pluginOptions))
+);
+
+export const findReferences: Command = (view) => {
+    const plugin = view.plugin(languageServerPlugin);
+    if (plugin == null) return false;
+    plugin.requestReferences(view);
+    return true;
+};
+
+export const showIncomingCalls: Command = (view) => {
+    const plugin = view.plugin(languageServerPlugin);
+    if (plugin == null) return false;
+    plugin.requestCallHierarchy(view, 'incoming');
+    return true;
+};
+
+export const showOutgoingCalls: Command = (view) => {
+    const plugin = view.plugin(languageServerPlugin);
+    if (plugin == null) return false;
+    plugin.requestCallHierarchy(view, 'outgoing');
+    return true;
+};
+
+export const showSupertypes: Command = (view) => {
+    const plugin = view.plugin(languageServerPlugin);
+    if (plugin == null) return false;
+    plugin.requestTypeHierarchy(view, 'supertypes');
+    return true;
+};
+
+export const showSubtypes: Command = (view) => {
+    const plugin = view.plugin(languageServerPlugin);
+    if (plugin == null) return false;
+    plugin.requestTypeHierarchy(view, 'subtypes');
+    return true;
+};
+
+export const goToSymbol: Command = (view) => {
+    const plugin = view.plugin(languageServerPlugin);
+    if (plugin == null) return false;
+    plugin.requestGoToSymbol(view).catch((e) => console.error(e));
+    return true;
+};
+
+export const goToWorkspaceSymbol: Command = (view) =>
+    view.plugin(languageServerPlugin)?.requestWorkspaceSymbols(view) ?? false;
+
+// Fetches the symbols of the document and keeps `documentSymbols` up to date
+// from then on.
+export function requestDocumentSymbols(view: EditorView): Promise<DocumentSymbolItem[] | null> {
+    return view.plugin(languageServerPlugin)?.requestDocumentSymbols() ?? Promise.resolve(null);
+}
+
+// Folds every range of the given kind reported by the server, such as
+// 'comment', 'imports' or 'region'
+export function foldAllOfKind(kind: FoldingRangeKind | string): Command {
+    return (view) => {
+        const ranges = view.state.field(foldingRangesField, false);
+        if (!ranges) return false;
+        const folded = foldedRanges(view.state);
+        const effects = ranges
+            .filter((range) => {
+                if (range.kind !== kind) return false;
+                let isFolded = false;
+                folded.between(range.from, range.from, (from, to) => {
+                    if (from === range.from && to === range.to) isFolded = true;
+                });
+                return !isFolded;
+            })
+            .map(({ from, to }) => foldEffect.of({ from, to }));
+        if (effects.length) view.dispatch({ effects });
+        return effects.length > 0;
+    };
+}
+
+export const foldAllComments = foldAllOfKind(FoldingRangeKind.Comment);
+
+export const foldAllImports = foldAllOfKind(FoldingRangeKind.Imports);
+
+export const foldAllRegions = foldAllOfKind(FoldingRangeKind.Region);
+
+// Lets the server prepare for the document being saved, which may edit it.
+// Save once the returned promise resolves.
+export function willSaveDocument(
+    view: EditorView,
+    reason: TextDocumentSaveReason = TextDocumentSaveReason.Manual
+): Promise<void> {
+    return view.plugin(languageServerPlugin)?.willSave(reason) ?? Promise.resolve();
+}
+
+export function didSaveDocument(view: EditorView): Promise<void> {
+    return view.plugin(languageServerPlugin)?.didSave() ?? Promise.resolve();
+}
+
+export const toggleInlayHints: Command = (view) => {
+    const field = view.state.field(inlayHintsField, false);
+    if (field == null) return false;
+    view.dispatch({ effects: toggleInlayHintsEffect.of(!field.enabled) });
+    return true;
+};
+
+export const formatDocument: Command = (view) => {
+    const plugin = view.plugin(languageServerPlugin);
+    if (plugin == null) return false;
+    plugin.requestFormatting(view);
+    return true;
+};
+
+export const formatSelection: Command = (view) => {
+    const plugin = view.plugin(languageServerPlugin);
+    if (plugin == null) return false;
+    plugin.requestRangeFormatting(view);
+    return true;
+};
+
+export const formattingKeymap: readonly KeyBinding[] = [
+    { key: 'Shift-Alt-f', run: formatDocument },
+    { key: 'Mod-k Mod-f', run: formatSelection },
+];
+
+// Anything messages can be posted to and received from, such as workers,
+// message ports and broadcast channels.
+export interface MessageEndpoint {
+    postMessage(message: unknown): void;
+    addEventListener(type: string, listener: (event: MessageEvent) => void): void;
+    removeEventListener(type: string, listener: (event: MessageEvent) => void): void;
+}
+
+// Talks to a language server with postMessage. Messages are posted as
+// objects, and replies may be objects or JSON strings. A `close` event on the
+// endpoint counts as the connection dropping.
+export class MessagePortTransport extends Transport implements ServerRequestChannel {
+    public connection: MessageEndpoint;
+    private listener: (event: MessageEvent) => void;
+    private closeListener = () => this.dropped();
+    private closeCallbacks: (() => void)[] = [];
+    private requestHandler: ((request: ServerRequest) => void) | null = null;
+
+    constructor(connection: MessageEndpoint) {
+        super();
+        this.connection = connection;
+        this.listener = ({ data }) => {
+            let message: unknown = data;
+            try {
+                if (typeof data === 'string') message = JSON.parse(data);
+            } catch (e) {
+                message = null;
+            }
+            // Requests from the server go to the client, which answers them
+            if (isServerRequest(message)) this.requestHandler?.(message);
+            else this.transportRequestManager.resolveResponse(typeof data === 'string' ? data : JSON.stringify(data));
+        };
+    }
+
+    onRequest(handler: (request: ServerRequest) => void) {
+        this.requestHandler = handler;
+    }
+
+    sendResponse(response: ServerResponse) {
+        try {
+            this.connection.postMessage(response);
+        } catch (e) {
+            console.error(e);
+        }
+    }
+
+    connect(): Promise<void> {
+        this.connection.addEventListener('message', this.listener);
+        this.connection.addEventListener('close', this.closeListener);
+        // Message ports only deliver messages once started
+        (this.connection as Partial<MessagePort>).start?.();
+        return Promise.resolve();
+    }
+
+    sendData(data: JSONRPCRequestData, timeout: number | null = null): Promise<unknown> {
+        const promise = this.transportRequestManager.addRequest(data, timeout);
+        const notifications = getNotifications(data);
+        try {
+            this.connection.postMessage(this.parseData(data));
+            this.transportRequestManager.settlePendingRequest(notifications);
+            return promise;
+        } catch (e) {
+            const error = new JSONRPCError(e.message, ERR_UNKNOWN, e);
+            this.transportRequestManager.settlePendingRequest(notifications, error);
+            return Promise.reject(error);
+        }
+    }
+
+    close() {
+        this.connection.removeEventListener('message', this.listener);
+        this.connection.removeEventListener('close', this.closeListener);
+        (this.connection as Partial<MessagePort>).close?.();
+    }
+
+    // Calls back once the connection drops
+    onClose(callback: () => void) {
+        this.closeCallbacks.push(callback);
+    }
+
+    protected dropped() {
+        const callbacks = this.closeCallbacks;
+        this.closeCallbacks = [];
+        for (const callback of callbacks) callback();
+    }
+}
+
+// Talks to a language server running in a Web Worker. Given a script URL
+// rather than a worker, it starts the worker itself, and the client can start
+// a new one to reconnect. Closing the transport terminates the worker.
+// Workers never close by themselves, so an uncaught error in the worker or a
+// message that can't be read counts as a crash: the worker is terminated and
+// the connection drops.
+export class WorkerTransport extends MessagePortTransport {
+    public scriptURL: string | URL | null;
+    public workerOptions: WorkerOptions | undefined;
+    private worker: Worker;
+    private errorListener = (event: Event) => {
+        console.error((event as ErrorEvent).error ?? event);
+        this.close();
+        this.dropped();
+    };
+
+    constructor(worker: Worker | string | URL, workerOptions?: WorkerOptions) {
+        const isWorker = typeof worker === 'object' && 'postMessage' in worker;
+        const instance = isWorker ? worker : new Worker(worker, workerOptions);
+        super(instance);
+        this.worker = instance;
+        this.scriptURL = isWorker ? null : worker;
+        this.workerOptions = workerOptions;
+    }
+
+    connect(): Promise<void> {
+        this.worker.addEventListener('error', this.errorListener);
+        this.worker.addEventListener('messageerror', this.errorListener);
+        return super.connect();
+    }
+
+    close() {
+        this.worker.removeEventListener('error', this.errorListener);
+        this.worker.removeEventListener('messageerror', this.errorListener);
+        super.close();
+        this.worker.terminate();
+    }
+}
+
+// Talks to a language server over a WebSocket, with messages as JSON strings.
+// Unlike open-rpc's WebSocketTransport, it answers requests from the server
+// without reaching into open-rpc.
+export class WebSocketMessageTransport extends MessagePortTransport {
+    public uri: string;
+    private socket: WebSocket;
+
+    constructor(uri: string) {
+        const socket = new WebSocket(uri);
+        super({
+            postMessage: (message) => socket.send(JSON.stringify(message)),
+            addEventListener: (type, listener) => socket.addEventListener(type, listener as EventListener),
+            removeEventListener: (type, listener) => socket.removeEventListener(type, listener as EventListener),
+        });
+        this.uri = uri;
+        this.socket = socket;
+    }
+
+    // Resolves once the socket is open. A socket failing to open closes,
+    // which counts as the connection dropping.
+    connect(): Promise<void> {
+        super.connect();
+        if (this.socket.readyState === WebSocket.OPEN) return Promise.resolve();
+        return new Promise((resolve) => {
+            const open = () => {
+                this.socket.removeEventListener('open', open);
+                resolve();
+            };
+            this.socket.addEventListener('open', open);
+        });
+    }
+
+    close() {
+        super.close();
+        this.socket.close();
+    }
+}
+
+interface TreeItem {
+    label: string;
+    detail?: string;
+    select?: () => void;
+    children?: TreeItem[];
+    // Loads the children when the item is first expanded
+    loadChildren?: () => Promise<TreeItem[]>;
+}
 
-    return [
-        client.of(options.client || new LanguageServerClient({...options, autoClose: true})),
-        documentUri.of(options.documentUri),
-        languageId.of(options.languageId),
-        prefix.of(prefixTxt),
-        suffix.of(suffixTxt),
-        ViewPlugin.define((view) => (plugin = new LanguageServerPlugin(view, options.allowHTMLContent))),
-        hoverTooltip(
-            (view, pos) =>
-                plugin?.requestHoverTooltip(
-                    view,
-                    offsetToPos(view.state.doc, prefixTxt, pos)
-                ) ?? null
-        ),
-        autocompletion({
-            override: [
-                async (context) => {
-                    if (plugin == null) return null;
+interface TreePanel {
+    title: string;
+    items: TreeItem[];
+}
 
-                    const { state, pos, explicit } = context;
-                    const line = state.doc.lineAt(pos);
-                    let trigKind: CompletionTriggerKind =
-                        CompletionTriggerKind.Invoked;
-                    let trigChar: string | undefined;
-                    if (!explicit) {
-                        if (plugin.client.capabilities?.completionProvider?.triggerCharacters?.includes(
-                                line.text[pos - line.from - 1])
-                            ) {
-                            trigKind = CompletionTriggerKind.TriggerCharacter;
-                            trigChar = line.text[pos - line.from - 1];
-                        } else if (!context.matchBefore(/\w+$/)) return null;
+const setTreePanel = StateEffect.define<TreePanel | null>();
+
+const treePanelField = StateField.define<TreePanel | null>({
+    create: () => null,
+    update(panel, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setTreePanel)) panel = effect.value;
+        }
+        return panel;
+    },
+    provide: (field) =>
+        showPanel.from(field, (panel) => panel && ((view) => createTreePanel(view, panel))),
+});
+
+function createTreePanel(view: EditorView, panel: TreePanel): Panel {
+    const dom = document.createElement('div');
+    dom.className = 'cm-lsp-tree-panel';
+    dom.tabIndex = -1;
+
+    const close = () => {
+        view.dispatch({ effects: setTreePanel.of(null) });
+        view.focus();
+    };
+
+    const header = dom.appendChild(document.createElement('div'));
+    header.className = 'cm-lsp-tree-title';
+    header.textContent = panel.title;
+    const closeButton = header.appendChild(document.createElement('button'));
+    closeButton.name = 'close';
+    closeButton.setAttribute('aria-label', 'close');
+    closeButton.textContent = '×';
+    closeButton.addEventListener('click', close);
+
+    const renderItems = (items: TreeItem[]) => {
+        const list = document.createElement('ul');
+        for (const item of items) {
+            const li = list.appendChild(document.createElement('li'));
+            const row = li.appendChild(document.createElement('div'));
+            row.className = 'cm-lsp-tree-item';
+            const toggle = row.appendChild(document.createElement('span'));
+            toggle.className = 'cm-lsp-tree-toggle';
+            row.appendChild(document.createElement('span')).textContent = item.label;
+            if (item.detail) {
+                const detail = row.appendChild(document.createElement('span'));
+                detail.className = 'cm-lsp-tree-detail';
+                detail.textContent = item.detail;
+            }
+
+            let children: HTMLElement | null = null;
+            let loading = false;
+            const toggleChildren = () => {
+                if (children) {
+                    children.hidden = !children.hidden;
+                    toggle.textContent = children.hidden ? '▸' : '▾';
+                    return;
+                }
+                if (!item.loadChildren || loading) return;
+                loading = true;
+                toggle.textContent = '…';
+                item.loadChildren().then(
+                    (items) => {
+                        children = li.appendChild(renderItems(items));
+                        toggle.textContent = items.length ? '▾' : '';
+                    },
+                    (e) => {
+                        console.error(e);
+                        loading = false;
+                        toggle.textContent = '▸';
                     }
-                    return await plugin.requestCompletion(
-                        context,
-                        offsetToPos(state.doc, prefixTxt, pos),
-                        {
-                            triggerKind: trigKind,
-                            triggerCharacter: trigChar,
-                        }
-                    );
-                },
-            ],
-        }),
-    ];
+                );
+            };
+            if (item.children?.length) {
+                children = li.appendChild(renderItems(item.children));
+                toggle.textContent = '▾';
+            } else if (item.loadChildren) {
+                toggle.textContent = '▸';
+            }
+            // Items that navigate somewhere expand from their toggle only
+            toggle.addEventListener('click', (event) => {
+                event.stopPropagation();
+                toggleChildren();
+            });
+            row.addEventListener('click', () => {
+                if (item.select) {
+                    item.select();
+                } else {
+                    toggleChildren();
+                }
+            });
+        }
+        return list;
+    };
+    dom.appendChild(renderItems(panel.items));
+
+    dom.addEventListener('keydown', (event) => {
+        if (event.key !== 'Escape') return;
+        event.preventDefault();
+        close();
+    });
+
+    return { dom, top: false };
+}
+
+const treePanelTheme = EditorView.baseTheme({
+    '.cm-lsp-tree-panel': {
+        maxHeight: '16em',
+        overflowY: 'auto',
+        outline: 'none',
+    },
+    '.cm-lsp-tree-title': {
+        padding: '2px 6px',
+        fontWeight: 'bold',
+    },
+    '.cm-lsp-tree-title button[name=close]': {
+        float: 'right',
+        border: 'none',
+        background: 'none',
+        font: 'inherit',
+        cursor: 'pointer',
+    },
+    '.cm-lsp-tree-panel ul': {
+        margin: 0,
+        paddingLeft: '1em',
+        listStyle: 'none',
+    },
+    '.cm-lsp-tree-item': {
+        cursor: 'pointer',
+        whiteSpace: 'nowrap',
+    },
+    '.cm-lsp-tree-item:hover': {
+        backgroundColor: '#ddd',
+    },
+    '&dark .cm-lsp-tree-item:hover': {
+        backgroundColor: '#444',
+    },
+    '.cm-lsp-tree-toggle': {
+        display: 'inline-block',
+        width: '1em',
+    },
+    '.cm-lsp-tree-detail': {
+        marginLeft: '1em',
+        opacity: 0.6,
+    },
+});
+
+const setSignatureHelp = StateEffect.define<Tooltip | null>();
+
+const signatureHelpField = StateField.define<Tooltip | null>({
+    create: () => null,
+    update(tooltip, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setSignatureHelp)) return effect.value;
+        }
+        if (tooltip && tr.docChanged) {
+            tooltip = { ...tooltip, pos: tr.changes.mapPos(tooltip.pos) };
+        }
+        return tooltip;
+    },
+    provide: (field) => showTooltip.from(field),
+});
+
+const signatureHelpTheme = EditorView.baseTheme({
+    '.cm-lsp-signature-help': {
+        padding: '2px 6px',
+        maxWidth: '40em',
+    },
+    '.cm-lsp-signature': {
+        opacity: 0.6,
+    },
+    '.cm-lsp-signature-active': {
+        opacity: 1,
+    },
+    '.cm-lsp-signature-active-parameter': {
+        fontWeight: 'bold',
+        textDecoration: 'underline',
+    },
+});
+
+const setRename = StateEffect.define<Tooltip | null>();
+
+const renameField = StateField.define<Tooltip | null>({
+    create: () => null,
+    update(tooltip, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setRename)) return effect.value;
+        }
+        // Close the rename input when the document changes underneath it
+        return tr.docChanged ? null : tooltip;
+    },
+    provide: (field) => showTooltip.from(field),
+});
+
+const DocumentHighlightMarks: Record<DocumentHighlightKind, Decoration> = {
+    [DocumentHighlightKind.Text]: Decoration.mark({ class: 'cm-lsp-highlight cm-lsp-highlight-text' }),
+    [DocumentHighlightKind.Read]: Decoration.mark({ class: 'cm-lsp-highlight cm-lsp-highlight-read' }),
+    [DocumentHighlightKind.Write]: Decoration.mark({ class: 'cm-lsp-highlight cm-lsp-highlight-write' }),
+};
+
+const setDocumentHighlights = StateEffect.define<DecorationSet>();
+
+const documentHighlightField = StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update(highlights, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setDocumentHighlights)) return effect.value;
+        }
+        return highlights.map(tr.changes);
+    },
+    provide: (field) => EditorView.decorations.from(field),
+});
+
+const documentHighlightTheme = EditorView.baseTheme({
+    '.cm-lsp-highlight-text, .cm-lsp-highlight-read': {
+        backgroundColor: '#dde6ff',
+    },
+    '.cm-lsp-highlight-write': {
+        backgroundColor: '#fde2c3',
+    },
+    '&dark .cm-lsp-highlight-text, &dark .cm-lsp-highlight-read': {
+        backgroundColor: '#2f3a55',
+    },
+    '&dark .cm-lsp-highlight-write': {
+        backgroundColor: '#4d3a24',
+    },
+});
+
+function moveToDocumentHighlight(forward: boolean): Command {
+    return (view) => {
+        const highlights = view.state.field(documentHighlightField, false);
+        if (!highlights?.size) return false;
+        const ranges: { from: number; to: number }[] = [];
+        highlights.between(0, view.state.doc.length, (from, to) => {
+            ranges.push({ from, to });
+        });
+        const head = view.state.selection.main.head;
+        // Wrap around at either end of the document
+        const target = forward
+            ? ranges.find(({ from }) => from > head) ?? ranges[0]
+            : [...ranges].reverse().find(({ to }) => to < head) ?? ranges[ranges.length - 1];
+        view.dispatch({
+            selection: { anchor: target.from, head: target.to },
+            scrollIntoView: true,
+        });
+        return true;
+    };
+}
+
+export const nextDocumentHighlight = moveToDocumentHighlight(true);
+
+export const previousDocumentHighlight = moveToDocumentHighlight(false);
+
+export interface DocumentSymbolItem {
+    name: string;
+    detail?: string;
+    kind: SymbolKind;
+    // Offsets in the editor document
+    range: { from: number; to: number };
+    selectionRange: { from: number; to: number };
+    children: DocumentSymbolItem[];
+}
+
+const setDocumentSymbols = StateEffect.define<DocumentSymbolItem[] | null>();
+
+function mapDocumentSymbols(symbols: DocumentSymbolItem[], changes: ChangeDesc): DocumentSymbolItem[] {
+    return symbols.map((symbol) => ({
+        ...symbol,
+        range: {
+            from: changes.mapPos(symbol.range.from, 1),
+            to: changes.mapPos(symbol.range.to, -1),
+        },
+        selectionRange: {
+            from: changes.mapPos(symbol.selectionRange.from, 1),
+            to: changes.mapPos(symbol.selectionRange.to, -1),
+        },
+        children: mapDocumentSymbols(symbol.children, changes),
+    }));
+}
+
+// The outline of the document, null until requested with
+// `requestDocumentSymbols`. Positions are mapped through edits until the
+// server sends the symbols of the new document.
+export const documentSymbolsField = StateField.define<DocumentSymbolItem[] | null>({
+    create: () => null,
+    update(symbols, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setDocumentSymbols)) return effect.value;
+        }
+        return symbols && tr.docChanged ? mapDocumentSymbols(symbols, tr.changes) : symbols;
+    },
+});
+
+interface FoldingRangeItem {
+    from: number;
+    to: number;
+    kind?: string;
+    collapsedText?: string;
+}
+
+const setFoldingRanges = StateEffect.define<FoldingRangeItem[]>();
+
+const foldingRangesField = StateField.define<FoldingRangeItem[]>({
+    create: () => [],
+    update(ranges, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setFoldingRanges)) return effect.value;
+        }
+        if (!tr.docChanged || !ranges.length) return ranges;
+        return ranges
+            .map((range) => ({
+                ...range,
+                from: tr.changes.mapPos(range.from, 1),
+                to: tr.changes.mapPos(range.to, -1),
+            }))
+            .filter(({ from, to }) => from < to);
+    },
+});
+
+// Without characters, a range folds from the end of its start line to the end
+// of its end line. Ranges starting in the hidden prefix are dropped, and
+// those reaching into the suffix end with the document.
+function foldingRangeItem(doc: Text, prefix: Text, range: LSP.FoldingRange): FoldingRangeItem | null {
+    const fullTxt = prefix.append(doc);
+    if (range.startLine < prefix.lines - 1 || range.startLine >= fullTxt.lines) return null;
+    const startLine = fullTxt.line(range.startLine + 1);
+    let from = range.startCharacter === undefined
+        ? startLine.to
+        : Math.min(startLine.from + range.startCharacter, startLine.to);
+    let to = fullTxt.length;
+    if (range.endLine < fullTxt.lines) {
+        const endLine = fullTxt.line(range.endLine + 1);
+        to = range.endCharacter === undefined
+            ? endLine.to
+            : Math.min(endLine.from + range.endCharacter, endLine.to);
+    }
+    from -= prefix.length;
+    to -= prefix.length;
+    if (from < 0 || to <= from) return null;
+    return { from, to, kind: range.kind, collapsedText: range.collapsedText };
+}
+
+// Offers the largest range starting on the line
+const foldingRangeService = foldService.of((state, lineStart, lineEnd) => {
+    let found: FoldingRangeItem | null = null;
+    for (const range of state.field(foldingRangesField, false) ?? []) {
+        if (range.from < lineStart || range.from > lineEnd || range.to <= lineEnd) continue;
+        if (!found || range.to > found.to) found = range;
+    }
+    return found && { from: found.from, to: found.to };
+});
+
+// Shows the collapsed text given by the server in place of folded ranges. Not
+// part of the language server extension, as it configures codeFolding's
+// placeholder for every fold in the editor.
+export const foldingRangePlaceholder = codeFolding({
+    preparePlaceholder: (state, { from, to }) =>
+        state.field(foldingRangesField, false)?.find((range) => range.from === from && range.to === to)
+            ?.collapsedText ?? null,
+    placeholderDOM: (view, onclick, collapsedText: string | null) => {
+        const dom = document.createElement('span');
+        dom.textContent = collapsedText ?? '…';
+        dom.setAttribute('aria-label', view.state.phrase('folded code'));
+        dom.title = view.state.phrase('unfold');
+        dom.className = 'cm-foldPlaceholder';
+        dom.onclick = onclick;
+        return dom;
+    },
+});
+
+const setProgress = StateEffect.define<[LSP.ProgressToken, WorkDoneProgress][]>();
+
+function progressItems(client: LanguageServerClient) {
+    return Array.from(client.progress.entries());
+}
+
+const progressField = StateField.define<[LSP.ProgressToken, WorkDoneProgress][]>({
+    create: (state) =>
+        state.facet(pluginOptions).progressIndicator === false ? [] : progressItems(state.facet(client)),
+    update(progress, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setProgress)) progress = effect.value;
+        }
+        return progress;
+    },
+    provide: (field) =>
+        showPanel.from(field, (progress) => progress.length ? (view) => createProgressPanel(view, progress) : null),
+});
+
+function createProgressPanel(view: EditorView, progress: [LSP.ProgressToken, WorkDoneProgress][]): Panel {
+    const dom = document.createElement('div');
+    dom.className = 'cm-lsp-progress';
+    dom.setAttribute('role', 'status');
+    for (const [token, { title, message, percentage, cancellable }] of progress) {
+        const item = dom.appendChild(document.createElement('div'));
+        item.className = 'cm-lsp-progress-item';
+        item.appendChild(document.createElement('span')).className = 'cm-lsp-progress-spinner';
+        item.append(title);
+        if (message) item.append(` ${message}`);
+        if (percentage !== undefined) item.append(` ${Math.round(percentage)}%`);
+        if (cancellable) {
+            const cancel = item.appendChild(document.createElement('button'));
+            cancel.name = 'cancel';
+            cancel.textContent = view.state.phrase('Cancel');
+            cancel.addEventListener('click', () => {
+                view.state.facet(client).cancelProgress(token).catch((e) => console.error(e));
+            });
+        }
+    }
+    return { dom, top: false };
+}
+
+const addMessage = StateEffect.define<LSP.ShowMessageParams>();
+const dismissMessage = StateEffect.define<LSP.ShowMessageParams | null>();
+
+// Messages shown by the server, until dismissed
+const messagesField = StateField.define<LSP.ShowMessageParams[]>({
+    create: () => [],
+    update(messages, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(addMessage)) {
+                messages = [...messages, effect.value].slice(-maxMessages);
+            } else if (effect.is(dismissMessage)) {
+                messages = effect.value ? messages.filter((message) => message !== effect.value) : [];
+            }
+        }
+        return messages;
+    },
+    provide: (field) =>
+        showPanel.from(field, (messages) => messages.length ? (view) => createMessagesPanel(view, messages) : null),
+});
+
+const MessageTypeClass: Record<number, string> = {
+    [MessageType.Error]: 'cm-lsp-message-error',
+    [MessageType.Warning]: 'cm-lsp-message-warning',
+    [MessageType.Info]: 'cm-lsp-message-info',
+    [MessageType.Log]: 'cm-lsp-message-log',
+};
+
+function createMessagesPanel(view: EditorView, messages: LSP.ShowMessageParams[]): Panel {
+    const dom = document.createElement('div');
+    dom.className = 'cm-lsp-messages';
+    dom.tabIndex = -1;
+    for (const message of messages) {
+        const item = dom.appendChild(document.createElement('div'));
+        item.className = `cm-lsp-message ${MessageTypeClass[message.type] ?? 'cm-lsp-message-log'}`;
+        item.setAttribute('role', message.type === MessageType.Error ? 'alert' : 'status');
+        const closeButton = item.appendChild(document.createElement('button'));
+        closeButton.name = 'close';
+        closeButton.setAttribute('aria-label', 'close');
+        closeButton.textContent = '×';
+        closeButton.addEventListener('click', () => view.dispatch({ effects: dismissMessage.of(message) }));
+        item.append(message.message);
+    }
+    dom.addEventListener('keydown', (event) => {
+        if (event.key !== 'Escape') return;
+        event.preventDefault();
+        view.dispatch({ effects: dismissMessage.of(null) });
+        view.focus();
+    });
+    return { dom, top: false };
+}
+
+const statusTheme = EditorView.baseTheme({
+    '.cm-lsp-progress-item, .cm-lsp-message': {
+        padding: '2px 6px',
+        whiteSpace: 'pre-wrap',
+    },
+    '.cm-lsp-progress-spinner': {
+        display: 'inline-block',
+        width: '0.7em',
+        height: '0.7em',
+        marginRight: '0.5em',
+        border: '2px solid currentColor',
+        borderRightColor: 'transparent',
+        borderRadius: '50%',
+        opacity: 0.6,
+        animation: 'cm-lsp-spin 1s linear infinite',
+    },
+    '@keyframes cm-lsp-spin': {
+        to: { transform: 'rotate(360deg)' },
+    },
+    '.cm-lsp-progress-item button[name=cancel]': {
+        marginLeft: '0.5em',
+        font: 'inherit',
+    },
+    '.cm-lsp-message button[name=close]': {
+        float: 'right',
+        border: 'none',
+        background: 'none',
+        font: 'inherit',
+        cursor: 'pointer',
+    },
+    '.cm-lsp-message-error': {
+        borderLeft: '3px solid #d11',
+    },
+    '.cm-lsp-message-warning': {
+        borderLeft: '3px solid orange',
+    },
+    '.cm-lsp-message-info, .cm-lsp-message-log': {
+        borderLeft: '3px solid #999',
+    },
+});
+
+const setInlayHints = StateEffect.define<DecorationSet>();
+const toggleInlayHintsEffect = StateEffect.define<boolean>();
+
+const inlayHintsField = StateField.define<{ enabled: boolean; decorations: DecorationSet }>({
+    create: (state) => ({
+        enabled: state.facet(pluginOptions).inlayHints ?? false,
+        decorations: Decoration.none,
+    }),
+    update(value, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(toggleInlayHintsEffect)) {
+                value = { enabled: effect.value, decorations: Decoration.none };
+            } else if (effect.is(setInlayHints) && value.enabled) {
+                value = { ...value, decorations: effect.value };
+            }
+        }
+        return tr.docChanged ? { ...value, decorations: value.decorations.map(tr.changes) } : value;
+    },
+    provide: (field) => EditorView.decorations.from(field, (value) => value.decorations),
+});
+
+class InlayHintWidget extends WidgetType {
+    constructor(readonly hint: LSP.InlayHint, readonly plugin: LanguageServerPlugin) {
+        super();
+    }
+
+    eq(other: InlayHintWidget) {
+        return (
+            other.hint.kind === this.hint.kind &&
+            other.hint.paddingLeft === this.hint.paddingLeft &&
+            other.hint.paddingRight === this.hint.paddingRight &&
+            JSON.stringify(other.hint.label) === JSON.stringify(this.hint.label)
+        );
+    }
+
+    toDOM(view: EditorView) {
+        const dom = document.createElement('span');
+        dom.className = 'cm-lsp-inlay-hint';
+        if (this.hint.kind === InlayHintKind.Type) dom.classList.add('cm-lsp-inlay-hint-type');
+        if (this.hint.kind === InlayHintKind.Parameter) dom.classList.add('cm-lsp-inlay-hint-parameter');
+        if (this.hint.paddingLeft) dom.classList.add('cm-lsp-inlay-hint-padding-left');
+        if (this.hint.paddingRight) dom.classList.add('cm-lsp-inlay-hint-padding-right');
+
+        const render = (hint: LSP.InlayHint) => {
+            dom.textContent = '';
+            dom.title = tooltipText(hint.tooltip);
+            const parts = typeof hint.label === 'string' ? [{ value: hint.label }] : hint.label;
+            for (const part of parts as LSP.InlayHintLabelPart[]) {
+                const span = dom.appendChild(document.createElement('span'));
+                span.textContent = part.value;
+                if (part.tooltip) span.title = tooltipText(part.tooltip);
+                const { location, command } = part;
+                if (!location && !command) continue;
+                span.className = 'cm-lsp-inlay-hint-link';
+                span.addEventListener('mousedown', (event) => {
+                    event.preventDefault();
+                    if (location) this.plugin.navigate(view, location);
+                    else if (command) this.plugin.executeCommand(command).catch((e) => console.error(e));
+                });
+            }
+        };
+        render(this.hint);
+
+        // Tooltips and label part details may be left out until resolved
+        dom.addEventListener('mouseenter', () => {
+            this.plugin.resolveInlayHint(this.hint)
+                .then((hint) => hint !== this.hint && render(hint))
+                .catch((e) => console.error(e));
+        }, { once: true });
+        return dom;
+    }
+}
+
+function tooltipText(tooltip: string | LSP.MarkupContent | undefined): string {
+    return typeof tooltip === 'object' ? tooltip.value : tooltip ?? '';
+}
+
+const inlayHintsTheme = EditorView.baseTheme({
+    '.cm-lsp-inlay-hint': {
+        fontSize: '90%',
+        opacity: 0.7,
+        borderRadius: '3px',
+        padding: '0 2px',
+        backgroundColor: '#eee',
+    },
+    '&dark .cm-lsp-inlay-hint': {
+        backgroundColor: '#333',
+    },
+    '.cm-lsp-inlay-hint-padding-left': {
+        marginLeft: '0.4em',
+    },
+    '.cm-lsp-inlay-hint-padding-right': {
+        marginRight: '0.4em',
+    },
+    '.cm-lsp-inlay-hint-link': {
+        cursor: 'pointer',
+    },
+    '.cm-lsp-inlay-hint-link:hover': {
+        textDecoration: 'underline',
+    },
+});
+
+const setSemanticTokens = StateEffect.define<DecorationSet>();
+
+const semanticTokensField = StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update(decorations, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setSemanticTokens)) return effect.value;
+        }
+        return decorations.map(tr.changes);
+    },
+    provide: (field) => EditorView.decorations.from(field),
+});
+
+const semanticTokensTheme = EditorView.baseTheme({
+    '.cm-lsp-semantic-namespace, .cm-lsp-semantic-type, .cm-lsp-semantic-typeParameter': {
+        color: '#085',
+    },
+    '.cm-lsp-semantic-class, .cm-lsp-semantic-enum, .cm-lsp-semantic-interface, .cm-lsp-semantic-struct': {
+        color: '#167',
+    },
+    '.cm-lsp-semantic-function, .cm-lsp-semantic-method, .cm-lsp-semantic-macro': {
+        color: '#00f',
+    },
+    '.cm-lsp-semantic-property, .cm-lsp-semantic-enumMember': {
+        color: '#219',
+    },
+    '.cm-lsp-semantic-keyword, .cm-lsp-semantic-modifier': {
+        color: '#708',
+    },
+    '.cm-lsp-semantic-comment': {
+        color: '#940',
+    },
+    '.cm-lsp-semantic-string, .cm-lsp-semantic-regexp': {
+        color: '#a11',
+    },
+    '.cm-lsp-semantic-number': {
+        color: '#164',
+    },
+    '.cm-lsp-semantic-mod-deprecated': {
+        textDecoration: 'line-through',
+    },
+});
+
+const isMac = typeof navigator !== 'undefined' && /Mac/.test(navigator.platform);
+
+interface PickerItem {
+    label: string;
+    detail?: string;
+    select: () => void;
+}
+
+interface Picker {
+    title: string;
+    items: PickerItem[];
+    // Show an input that narrows the items down by label
+    filter?: boolean;
+    // Show an input and list the items found for its text instead
+    search?: (query: string) => Promise<PickerItem[]>;
+}
+
+const setPicker = StateEffect.define<Picker | null>();
+
+const pickerField = StateField.define<Picker | null>({
+    create: () => null,
+    update(picker, tr) {
+        for (const effect of tr.effects) {
+            if (effect.is(setPicker)) picker = effect.value;
+        }
+        return picker;
+    },
+    provide: (field) =>
+        showPanel.from(field, (picker) => picker && ((view) => createPickerPanel(view, picker))),
+});
+
+function createPickerPanel(view: EditorView, picker: Picker): Panel {
+    const dom = document.createElement('div');
+    dom.className = 'cm-lsp-picker';
+    dom.tabIndex = -1;
+
+    const title = dom.appendChild(document.createElement('div'));
+    title.className = 'cm-lsp-picker-title';
+    title.textContent = picker.title;
+
+    const input = picker.filter || picker.search
+        ? dom.appendChild(document.createElement('input'))
+        : null;
+    if (input) input.className = 'cm-lsp-picker-input';
+
+    const list = dom.appendChild(document.createElement('ul'));
+    let items = picker.items;
+    let selected = 0;
+    let searchTimeout = 0;
+    let searchRequest = 0;
+
+    const close = () => {
+        if (searchTimeout) clearTimeout(searchTimeout);
+        view.dispatch({ effects: setPicker.of(null) });
+        view.focus();
+    };
+    const choose = (item: PickerItem) => {
+        close();
+        item.select();
+    };
+    const highlight = (index: number) => {
+        list.children[selected]?.removeAttribute('aria-selected');
+        selected = Math.max(0, Math.min(index, items.length - 1));
+        const el = list.children[selected] as HTMLElement | undefined;
+        el?.setAttribute('aria-selected', 'true');
+        el?.scrollIntoView({ block: 'nearest' });
+    };
+
+    const render = (newItems: PickerItem[]) => {
+        items = newItems;
+        list.textContent = '';
+        for (const item of items) {
+            const li = list.appendChild(document.createElement('li'));
+            li.className = 'cm-lsp-picker-item';
+            li.appendChild(document.createElement('span')).textContent = item.label;
+            if (item.detail) {
+                const detail = li.appendChild(document.createElement('span'));
+                detail.className = 'cm-lsp-picker-detail';
+                detail.textContent = item.detail;
+            }
+            li.addEventListener('mousedown', (event) => {
+                event.preventDefault();
+                choose(item);
+            });
+        }
+        selected = 0;
+        highlight(0);
+    };
+    const search = async (query: string) => {
+        const id = ++searchRequest;
+        try {
+            const found = await picker.search!(query);
+            if (id === searchRequest) render(found);
+        } catch (e) {
+            console.error(e);
+        }
+    };
+
+    input?.addEventListener('input', () => {
+        const query = input.value;
+        if (picker.search) {
+            if (searchTimeout) clearTimeout(searchTimeout);
+            searchTimeout = self.setTimeout(() => search(query), highlightDelay);
+        } else {
+            const lowerQuery = query.toLowerCase();
+            render(picker.items.filter((item) => item.label.toLowerCase().includes(lowerQuery)));
+        }
+    });
+
+    dom.addEventListener('keydown', (event) => {
+        switch (event.key) {
+            case 'ArrowDown':
+                highlight(selected + 1);
+                break;
+            case 'ArrowUp':
+                highlight(selected - 1);
+                break;
+            case 'Enter':
+                if (items[selected]) choose(items[selected]);
+                break;
+            case 'Escape':
+                close();
+                break;
+            default:
+                return;
+        }
+        event.preventDefault();
+    });
+
+    return {
+        dom,
+        top: true,
+        mount() {
+            render(picker.items);
+            if (picker.search) search('');
+            (input ?? dom).focus();
+        },
+        destroy() {
+            if (searchTimeout) clearTimeout(searchTimeout);
+        },
+    };
 }
 
+const pickerTheme = EditorView.baseTheme({
+    '.cm-lsp-picker': {
+        maxHeight: '12em',
+        overflowY: 'auto',
+        outline: 'none',
+    },
+    '.cm-lsp-picker-title': {
+        padding: '2px 6px',
+        fontWeight: 'bold',
+    },
+    '.cm-lsp-picker-input': {
+        display: 'block',
+        boxSizing: 'border-box',
+        width: '100%',
+        margin: '2px 0',
+        font: 'inherit',
+    },
+    '.cm-lsp-picker ul': {
+        margin: 0,
+        padding: 0,
+        listStyle: 'none',
+    },
+    '.cm-lsp-picker-item': {
+        padding: '1px 6px',
+        cursor: 'pointer',
+        whiteSpace: 'nowrap',
+    },
+    '.cm-lsp-picker-item[aria-selected]': {
+        backgroundColor: '#ddd',
+    },
+    '&dark .cm-lsp-picker-item[aria-selected]': {
+        backgroundColor: '#444',
+    },
+    '.cm-lsp-picker-detail': {
+        marginLeft: '1em',
+        opacity: 0.6,
+    },
+});
+
 function posToOffset(doc: Text, prefix: Text, pos: { line: number; character: number }) {
     const fullTxt = prefix.append(doc);
     if (pos.line >= fullTxt.lines) return doc.length;
@@ -558,6 +4612,46 @@ function posToOffset(doc: Text, prefix: Text, pos: { line: number; character: nu
     return Math.max(offset - prefix.length, 0);
 }
 
+// Like posToOffset, but returns null for ranges entirely inside the prefix or
+// suffix, and clips ranges that only partially overlap them. Empty ranges at
+// either end of the document are kept, as insertions there.
+function rangeToOffsets(doc: Text, prefix: Text, suffix: Text, range: LSP.Range) {
+    const { from, to } = unclippedOffsets(prefix.append(doc).append(suffix), prefix, range);
+    if (from === to ? from < 0 || from > doc.length : from >= doc.length || to <= 0) return null;
+    return { from: Math.max(from, 0), to: Math.min(to, doc.length) };
+}
+
+// Maps a text edit into the document. The new text of an edit reaching into
+// the prefix or suffix has to repeat the hidden text it replaces, which is
+// trimmed off. Edits that change the hidden text are dropped.
+function textEditToChange(doc: Text, prefix: Text, suffix: Text, { range, newText }: LSP.TextEdit) {
+    const fullTxt = prefix.append(doc).append(suffix);
+    const { from, to } = unclippedOffsets(fullTxt, prefix, range);
+    if (to < 0 || from > doc.length) return null;
+    const before = from < 0 ? fullTxt.sliceString(from + prefix.length, Math.min(to, 0) + prefix.length) : '';
+    const after = to > doc.length ? fullTxt.sliceString(Math.max(from, doc.length) + prefix.length, to + prefix.length) : '';
+    if (newText.length < before.length + after.length || !newText.startsWith(before) || !newText.endsWith(after)) {
+        return null;
+    }
+    const change = {
+        from: Math.max(from, 0),
+        to: Math.min(to, doc.length),
+        insert: newText.slice(before.length, newText.length - after.length),
+    };
+    return change.from === change.to && !change.insert ? null : change;
+}
+
+// Offsets in the document for a range in the text with the prefix and suffix,
+// negative in the prefix and past the end of the document in the suffix
+function unclippedOffsets(fullTxt: Text, prefix: Text, range: LSP.Range) {
+    const toOffset = ({ line, character }: LSP.Position) => {
+        if (line >= fullTxt.lines) return fullTxt.length - prefix.length;
+        const { from, to } = fullTxt.line(line + 1);
+        return Math.min(from + character, to) - prefix.length;
+    };
+    return { from: toOffset(range.start), to: toOffset(range.end) };
+}
+
 function offsetToPos(doc: Text, prefix: Text, offset: number) {
     const fullTxt = prefix.append(doc);
     const fullOffset = offset + prefix.length;
@@ -568,6 +4662,307 @@ function offsetToPos(doc: Text, prefix: Text, offset: number) {
     };
 }
 
+// Transports have no common way to report a lost connection, so only message
+// transports and those backed by a WebSocket-like connection can be watched.
+function onTransportClose(transport: Transport, callback: () => void) {
+    if (transport instanceof MessagePortTransport) {
+        transport.onClose(callback);
+        return;
+    }
+    const { connection } = transport as { connection?: Partial<MessageEndpoint> };
+    if (typeof connection?.addEventListener === 'function') {
+        connection.addEventListener('close', callback);
+    }
+}
+
+function cancelledError() {
+    return new JSONRPCError('Request cancelled', LSPErrorCodes.RequestCancelled);
+}
+
+function isCancelled(error: unknown) {
+    return (error as { code?: number } | null)?.code === LSPErrorCodes.RequestCancelled;
+}
+
+// Delta edits index into the previous token data. They are applied back to
+// front so that earlier indices stay valid.
+function applySemanticTokensEdits(data: number[], { resultId, edits }: LSP.SemanticTokensDelta) {
+    for (const { start, deleteCount, data: inserted } of [...edits].sort((a, b) => b.start - a.start)) {
+        data = data.slice(0, start).concat(inserted ?? [], data.slice(start + deleteCount));
+    }
+    return { resultId, data };
+}
+
+function normalizeLocations(result: LocationResult): LSP.Location[] {
+    if (!result) return [];
+    const items: (LSP.Location | LSP.LocationLink)[] = Array.isArray(result) ? result : [result];
+    return items.map((item) =>
+        'targetUri' in item
+            ? { uri: item.targetUri, range: item.targetSelectionRange ?? item.targetRange }
+            : item
+    );
+}
+
+// The character the user just typed, with line breaks taking precedence over
+// any indentation inserted after them.
+function typedCharacter(update: ViewUpdate) {
+    let typed = '';
+    if (!update.transactions.some((tr) => tr.isUserEvent('input'))) return typed;
+    update.changes.iterChanges((_fromA, _toA, _fromB, _toB, inserted) => {
+        if (inserted.length === 0) return;
+        const text = inserted.sliceString(0);
+        typed = /^\n\s*$/.test(text) ? '\n' : text[text.length - 1];
+    });
+    return typed;
+}
+
+// The text document sync options a server registers for a method
+function syncRegistration(method: string, registerOptions: unknown): LSP.TextDocumentSyncOptions {
+    switch (method) {
+        case 'textDocument/willSave':
+            return { willSave: true };
+        case 'textDocument/willSaveWaitUntil':
+            return { willSaveWaitUntil: true };
+        case 'textDocument/didSave': {
+            const options = registerOptions as LSP.TextDocumentSaveRegistrationOptions | null;
+            return { save: { includeText: options?.includeText } };
+        }
+        default: {
+            const options = registerOptions as LSP.TextDocumentChangeRegistrationOptions | null;
+            return { change: options?.syncKind };
+        }
+    }
+}
+
+function formattingOptions(state: EditorState): LSP.FormattingOptions {
+    const insertSpaces = !state.facet(indentUnit).includes('\t');
+    return {
+        tabSize: insertSpaces ? getIndentUnit(state) : state.tabSize,
+        insertSpaces,
+    };
+}
+
+function diagnosticMarkClass({ tags }: LSP.Diagnostic) {
+    const classes = [];
+    if (tags?.includes(DiagnosticTag.Unnecessary)) classes.push('cm-lsp-diagnostic-unnecessary');
+    if (tags?.includes(DiagnosticTag.Deprecated)) classes.push('cm-lsp-diagnostic-deprecated');
+    return classes.join(' ') || undefined;
+}
+
+const diagnosticsTheme = EditorView.baseTheme({
+    '.cm-lsp-diagnostic-unnecessary': {
+        opacity: 0.6,
+    },
+    '.cm-lsp-diagnostic-deprecated': {
+        textDecoration: 'line-through',
+    },
+    '.cm-lsp-diagnostic-code': {
+        opacity: 0.7,
+    },
+    '.cm-lsp-diagnostic-related': {
+        margin: '0.2em 0 0',
+        paddingLeft: '1.5em',
+    },
+    '.cm-lsp-diagnostic-related a': {
+        cursor: 'pointer',
+        textDecoration: 'underline',
+    },
+});
+
+function isSameDiagnostic(a: LSP.Diagnostic, b: LSP.Diagnostic) {
+    return (
+        a.message === b.message &&
+        a.range.start.line === b.range.start.line &&
+        a.range.start.character === b.range.start.character &&
+        a.range.end.line === b.range.end.line &&
+        a.range.end.character === b.range.end.character
+    );
+}
+
+function parameterLabelRange(
+    signatureLabel: string,
+    parameterLabel: string | [number, number]
+): [number, number] {
+    if (Array.isArray(parameterLabel)) return parameterLabel;
+    const from = signatureLabel.indexOf(parameterLabel);
+    return [from, from < 0 ? -1 : from + parameterLabel.length];
+}
+
+// In signatures and completions, plain strings are plain text
+function markupContent(documentation: string | LSP.MarkupContent): LSP.MarkupContent {
+    return typeof documentation === 'string' ? { kind: 'plaintext', value: documentation } : documentation;
+}
+
+interface MarkdownRenderer {
+    code: (code: string, language: string) => HTMLElement;
+    link: (url: string) => HTMLElement;
+}
+
+const gfmParser = markdownParser.configure(GFM);
+
+const MarkdownElements: Record<string, string> = {
+    Paragraph: 'p',
+    ATXHeading1: 'h1',
+    ATXHeading2: 'h2',
+    ATXHeading3: 'h3',
+    ATXHeading4: 'h4',
+    ATXHeading5: 'h5',
+    ATXHeading6: 'h6',
+    SetextHeading1: 'h1',
+    SetextHeading2: 'h2',
+    Blockquote: 'blockquote',
+    BulletList: 'ul',
+    OrderedList: 'ol',
+    ListItem: 'li',
+    Emphasis: 'em',
+    StrongEmphasis: 'strong',
+    Strikethrough: 'del',
+    InlineCode: 'code',
+    Table: 'table',
+    TableHeader: 'tr',
+    TableRow: 'tr',
+    TableCell: 'td',
+};
+
+// Syntax that isn't shown itself
+const MarkdownMarks = new Set([
+    'HeaderMark', 'QuoteMark', 'ListMark', 'EmphasisMark', 'CodeMark', 'LinkMark',
+    'StrikethroughMark', 'TableDelimiter', 'LinkTitle', 'LinkLabel', 'LinkReference',
+    'CodeInfo', 'Comment', 'CommentBlock', 'ProcessingInstruction', 'ProcessingInstructionBlock',
+]);
+
+const MarkdownEntities: Record<string, string> = {
+    '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&apos;': "'", '&nbsp;': '\u00a0',
+};
+
+// Builds the DOM element by element, so HTML in the markdown is never
+// interpreted and only web and mail links get an href.
+function renderMarkdown(parent: HTMLElement, markdown: string, renderer: MarkdownRenderer) {
+    renderMarkdownNode(parent, gfmParser.parse(markdown).topNode, markdown, renderer);
+}
+
+function renderMarkdownNode(parent: HTMLElement, node: SyntaxNode, text: string, renderer: MarkdownRenderer) {
+    switch (node.name) {
+        case 'FencedCode': {
+            const info = node.getChild('CodeInfo');
+            const code = node.getChild('CodeText');
+            parent.appendChild(renderer.code(
+                code ? text.slice(code.from, code.to) : '',
+                info ? text.slice(info.from, info.to).trim() : ''
+            ));
+            return;
+        }
+        case 'CodeBlock':
+            parent.appendChild(renderer.code(text.slice(node.from, node.to).replace(/\n {1,4}/g, '\n'), ''));
+            return;
+        case 'URL':
+            // Bare URLs, while link targets are handled with their link
+            if (node.parent?.name === 'Link' || node.parent?.name === 'Image') return;
+            parent.appendChild(renderer.link(text.slice(node.from, node.to))).textContent = text.slice(node.from, node.to);
+            return;
+        case 'Link':
+        case 'Image': {
+            // The label sits between the first two link marks
+            const marks = node.getChildren('LinkMark');
+            const url = node.getChild('URL');
+            const from = marks.length > 1 ? marks[0].to : node.from;
+            const to = marks.length > 1 ? marks[1].from : node.to;
+            // Images are not loaded, only their description is shown
+            const dom = node.name !== 'Image' && url
+                ? parent.appendChild(renderer.link(text.slice(url.from, url.to)))
+                : parent;
+            renderMarkdownContent(dom, node, text, renderer, from, to);
+            return;
+        }
+        case 'Escape':
+            parent.append(text.slice(node.from + 1, node.to));
+            return;
+        case 'Entity': {
+            const entity = text.slice(node.from, node.to);
+            const code = /^&#(x?)([\da-f]+);$/i.exec(entity);
+            parent.append(code ? entityCharacter(parseInt(code[2], code[1] ? 16 : 10)) : MarkdownEntities[entity] ?? entity);
+            return;
+        }
+        case 'HardBreak':
+            parent.appendChild(document.createElement('br'));
+            return;
+        case 'HorizontalRule':
+            parent.appendChild(document.createElement('hr'));
+            return;
+        case 'HTMLTag':
+            if (/^<br\s*\/?>$/i.test(text.slice(node.from, node.to))) parent.appendChild(document.createElement('br'));
+            return;
+        case 'HTMLBlock':
+            parent.appendChild(document.createElement('p')).textContent =
+                text.slice(node.from, node.to).replace(/<[^>]*>/g, '');
+            return;
+    }
+    if (MarkdownMarks.has(node.name)) return;
+    let tag = MarkdownElements[node.name];
+    if (node.name === 'TableCell' && node.parent?.name === 'TableHeader') tag = 'th';
+    renderMarkdownContent(tag ? parent.appendChild(document.createElement(tag)) : parent, node, text, renderer);
+}
+
+// Text between the child nodes is shown as is
+function renderMarkdownContent(
+    parent: HTMLElement,
+    node: SyntaxNode,
+    text: string,
+    renderer: MarkdownRenderer,
+    from = node.from,
+    to = node.to
+) {
+    let pos = from;
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+        if (child.to <= from || child.from >= to) continue;
+        if (child.from > pos) parent.append(text.slice(pos, child.from));
+        renderMarkdownNode(parent, child, text, renderer);
+        pos = child.to;
+    }
+    if (to > pos) parent.append(text.slice(pos, to));
+}
+
+// Invalid code points, such as 0, surrogates and those past the last one,
+// become the replacement character like CommonMark asks
+function entityCharacter(code: number) {
+    if (code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) return '\ufffd';
+    return String.fromCodePoint(code);
+}
+
+const documentationTheme = EditorView.baseTheme({
+    '.documentation': {
+        maxWidth: '40em',
+    },
+    '.documentation > :first-child': {
+        marginTop: 0,
+    },
+    '.documentation > :last-child': {
+        marginBottom: 0,
+    },
+    '.documentation p, .documentation pre': {
+        margin: '0.4em 0',
+    },
+    '.documentation pre': {
+        whiteSpace: 'pre-wrap',
+    },
+    '.documentation h1, .documentation h2, .documentation h3, .documentation h4, .documentation h5, .documentation h6': {
+        margin: '0.4em 0',
+        fontSize: '1em',
+    },
+    '.documentation ul, .documentation ol': {
+        margin: '0.4em 0',
+        paddingLeft: '1.5em',
+    },
+    '.documentation li > p': {
+        margin: 0,
+    },
+    '.documentation td, .documentation th': {
+        padding: '0 0.5em',
+    },
+    '.cm-lsp-plaintext': {
+        whiteSpace: 'pre-wrap',
+    },
+});
+
 function formatContents(
     contents: LSP.MarkupContent | LSP.MarkedString | LSP.MarkedString[]
 ): string {
@@ -591,12 +4986,83 @@ function toSet(chars: Set<string>) {
     return `[${preamble}${flat.replace(/[^\w\s]/g, '\\$&')}]`;
 }
 
+interface LSPCompletion extends Completion {
+    deprecated?: boolean;
+}
+
+const completionTheme = EditorView.baseTheme({
+    '.cm-lsp-completion-deprecated .cm-completionLabel': {
+        textDecoration: 'line-through',
+    },
+});
+
+// Converts LSP snippet syntax to a template for `snippet`. Templates have no
+// nested placeholders, choices or variables, so these are reduced to their
+// (first) text.
+function snippetTemplate(template: string): string {
+    let pos = 0;
+    const read = (pattern: RegExp) => {
+        const match = pattern.exec(template.slice(pos));
+        if (!match) return null;
+        pos += match[0].length;
+        return match[0];
+    };
+    const skipTo = (end: string) => {
+        while (pos < template.length && template[pos] !== end) pos += template[pos] === '\\' ? 2 : 1;
+        pos++;
+    };
+    // Top level text is escaped for the template, nested text is kept plain
+    const parse = (stop: string, nested: boolean): string => {
+        const literal = (text: string) => (nested ? text : text.replace(/[{}]/g, '\\$&'));
+        const field = (index: string, content: string) => {
+            if (nested) return content;
+            // Field defaults can't hold braces or span lines
+            if (/[{}\n]/.test(content)) return literal(content);
+            return content ? `\${${index}:${content}}` : `\${${index}}`;
+        };
+        let out = '';
+        while (pos < template.length && !stop.includes(template[pos])) {
+            const char = template[pos++];
+            if (char === '\\' && pos < template.length && '$}\\,|'.includes(template[pos])) {
+                out += literal(template[pos++]);
+            } else if (char !== '$') {
+                out += literal(char);
+            } else if (template[pos] === '{' && /^\{(\d|[_a-zA-Z])/.test(template.slice(pos))) {
+                pos++;
+                const index = read(/^\d+/);
+                // Variable values are unknown here, only their default is kept
+                if (index === null) read(/^[_a-zA-Z]\w*/);
+                let content = '';
+                if (template[pos] === ':') {
+                    pos++;
+                    content = parse('}', true);
+                    pos++;
+                } else if (index !== null && template[pos] === '|') {
+                    pos++;
+                    content = parse(',|', true);
+                    skipTo('}');
+                } else {
+                    // Plain tab stops and variables, or variable transforms
+                    skipTo('}');
+                }
+                out += index !== null ? field(index, content) : literal(content);
+            } else {
+                const index = read(/^\d+/);
+                if (index !== null) out += field(index, '');
+                else if (read(/^[_a-zA-Z]\w*/) === null) out += '$';
+            }
+        }
+        return out;
+    };
+    return parse('', false);
+}
+
 function prefixMatch(options: Completion[]) {
     const first = new Set<string>();
     const rest = new Set<string>();
 
-    for (const { apply } of options) {
-        const [initial, ...restStr] = apply as string;
+    for (const { label } of options) {
+        const [initial, ...restStr] = label;
         first.add(initial);
         for (const char of restStr) {
             rest.add(char);
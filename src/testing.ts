@@ -0,0 +1,209 @@
+// A language server in the same thread for testing editors, kept out of the
+// main entry point.
+import { Text } from '@codemirror/state';
+import { ErrorCodes } from 'vscode-languageserver-protocol';
+import type * as LSP from 'vscode-languageserver-protocol';
+import { MessagePortTransport } from './index';
+import type { LSPEventMap, LSPNotifyMap, LSPRequestMap, LSPServerRequestMap, MessageEndpoint } from './index';
+
+// One end of a pair of endpoints in the same thread. Messages are copied and
+// delivered asynchronously, as between a page and a worker.
+class InMemoryEndpoint implements MessageEndpoint {
+    public peer: InMemoryEndpoint | null = null;
+    private listeners = new Map<string, Set<(event: MessageEvent) => void>>();
+    private closed = false;
+
+    postMessage(message: unknown) {
+        if (this.closed) return;
+        const data = JSON.parse(JSON.stringify(message));
+        Promise.resolve().then(() => this.peer?.dispatch('message', { data }));
+    }
+
+    addEventListener(type: string, listener: (event: MessageEvent) => void) {
+        if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+        this.listeners.get(type)!.add(listener);
+    }
+
+    removeEventListener(type: string, listener: (event: MessageEvent) => void) {
+        this.listeners.get(type)?.delete(listener);
+    }
+
+    // Closes both ends, like a crashing server or a dropped connection
+    close() {
+        if (this.closed) return;
+        this.closed = true;
+        this.peer?.close();
+        Promise.resolve().then(() => this.dispatch('close', {}));
+    }
+
+    private dispatch(type: string, event: Partial<MessageEvent>) {
+        if (type === 'message' && this.closed) return;
+        for (const listener of this.listeners.get(type) ?? []) listener(event as MessageEvent);
+    }
+}
+
+// Connects to a language server in the same thread, such as the mock server
+// in tests. The server listens on `server`.
+export class InMemoryTransport extends MessagePortTransport {
+    public server: MessageEndpoint;
+
+    constructor() {
+        const client = new InMemoryEndpoint();
+        const server = new InMemoryEndpoint();
+        client.peer = server;
+        server.peer = client;
+        super(client);
+        this.server = server;
+    }
+}
+
+type MockRequestHandler<K extends keyof LSPRequestMap> = (
+    params: LSPRequestMap[K][0]
+) => LSPRequestMap[K][1] | Promise<LSPRequestMap[K][1]>;
+
+type MockParams<K extends keyof LSPRequestMap | keyof LSPNotifyMap> = K extends keyof LSPRequestMap
+    ? LSPRequestMap[K][0]
+    : K extends keyof LSPNotifyMap
+    ? LSPNotifyMap[K]
+    : never;
+
+type MockMessage = {
+    id?: number | string | null;
+    method?: string;
+    params?: LSP.LSPAny;
+    result?: LSP.LSPAny;
+    error?: { code: number; message: string };
+};
+
+// A scriptable language server for tests. It answers `initialize` with the
+// given capabilities, keeps track of the open documents, records every
+// message it receives, and answers other requests with the handlers set with
+// `onRequest`. Works on any endpoint, e.g. `self` inside a worker.
+export class MockLanguageServer {
+    public received: { method: string; params: LSP.LSPAny }[] = [];
+    public documents = new Map<string, LSP.TextDocumentItem>();
+    private requestHandlers = new Map<string, (params: LSP.LSPAny) => unknown>();
+    private notificationHandlers = new Map<string, ((params: LSP.LSPAny) => void)[]>();
+    private pendingRequests = new Map<number | string, {
+        resolve: (result: LSP.LSPAny) => void;
+        reject: (error: unknown) => void;
+    }>();
+    private nextId = 0;
+    private listener: (event: MessageEvent) => void;
+
+    constructor(
+        private endpoint: MessageEndpoint,
+        { capabilities = {} }: { capabilities?: LSP.ServerCapabilities } = {}
+    ) {
+        this.listener = ({ data }) => {
+            const message = typeof data === 'string' ? JSON.parse(data) : data;
+            for (const item of Array.isArray(message) ? message : [message]) this.receive(item);
+        };
+        endpoint.addEventListener('message', this.listener);
+        (endpoint as Partial<MessagePort>).start?.();
+
+        this.onRequest('initialize', () => ({ capabilities }));
+        this.onRequest('shutdown', () => null);
+        this.onNotification('textDocument/didOpen', ({ textDocument }) => {
+            this.documents.set(textDocument.uri, textDocument);
+        });
+        this.onNotification('textDocument/didChange', ({ textDocument, contentChanges }) => {
+            const document = this.documents.get(textDocument.uri);
+            if (!document) return;
+            for (const change of contentChanges) {
+                if (!('range' in change)) {
+                    document.text = change.text;
+                    continue;
+                }
+                const text = Text.of(document.text.split('\n'));
+                const offset = ({ line, character }: LSP.Position) =>
+                    Math.min(text.line(line + 1).from + character, text.length);
+                document.text = text.replace(offset(change.range.start), offset(change.range.end), Text.of(change.text.split('\n'))).toString();
+            }
+            document.version = textDocument.version;
+        });
+        this.onNotification('textDocument/didClose', ({ textDocument }) => {
+            this.documents.delete(textDocument.uri);
+        });
+    }
+
+    onRequest<K extends keyof LSPRequestMap>(method: K, handler: MockRequestHandler<K>) {
+        this.requestHandlers.set(method, handler);
+    }
+
+    onNotification<K extends keyof LSPNotifyMap>(method: K, handler: (params: LSPNotifyMap[K]) => void) {
+        if (!this.notificationHandlers.has(method)) this.notificationHandlers.set(method, []);
+        this.notificationHandlers.get(method)!.push(handler);
+    }
+
+    // Resolves with the params of the next message with the given method
+    waitFor<K extends keyof LSPRequestMap | keyof LSPNotifyMap>(method: K): Promise<MockParams<K>> {
+        return new Promise((resolve) => {
+            const handler = (params: MockParams<K>) => {
+                const handlers = this.notificationHandlers.get(method)!;
+                handlers.splice(handlers.indexOf(handler), 1);
+                resolve(params);
+            };
+            if (!this.notificationHandlers.has(method)) this.notificationHandlers.set(method, []);
+            this.notificationHandlers.get(method)!.push(handler);
+        });
+    }
+
+    notify<K extends keyof LSPEventMap>(method: K, params: LSPEventMap[K]) {
+        this.endpoint.postMessage({ jsonrpc: '2.0', method, params });
+    }
+
+    request<K extends keyof LSPServerRequestMap>(
+        method: K,
+        params: LSPServerRequestMap[K][0]
+    ): Promise<LSPServerRequestMap[K][1]> {
+        const id = ++this.nextId;
+        return new Promise((resolve, reject) => {
+            this.pendingRequests.set(id, { resolve, reject });
+            this.endpoint.postMessage({ jsonrpc: '2.0', id, method, params });
+        });
+    }
+
+    close() {
+        this.endpoint.removeEventListener('message', this.listener);
+        (this.endpoint as Partial<MessagePort>).close?.();
+    }
+
+    private async receive({ id, method, params, result, error }: MockMessage) {
+        if (method === undefined) {
+            // A response to a request of ours
+            const pending = this.pendingRequests.get(id!);
+            this.pendingRequests.delete(id);
+            if (error) pending?.reject(error);
+            else pending?.resolve(result);
+            return;
+        }
+        this.received.push({ method, params });
+        // Handlers may remove themselves while being called
+        for (const handler of [...(this.notificationHandlers.get(method) ?? [])]) handler(params);
+        if (id === undefined || id === null) return;
+
+        const handler = this.requestHandlers.get(method);
+        if (!handler) {
+            this.endpoint.postMessage({
+                jsonrpc: '2.0',
+                id,
+                error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${method}` },
+            });
+            return;
+        }
+        try {
+            const result = await handler(params);
+            this.endpoint.postMessage({ jsonrpc: '2.0', id, result: result ?? null });
+        } catch (e) {
+            this.endpoint.postMessage({
+                jsonrpc: '2.0',
+                id,
+                error: {
+                    code: typeof e?.code === 'number' ? e.code : ErrorCodes.InternalError,
+                    message: e?.message ?? String(e),
+                },
+            });
+        }
+    }
+}
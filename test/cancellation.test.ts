@@ -0,0 +1,77 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import { LSPErrorCodes } from 'vscode-languageserver-protocol';
+import type * as LSP from 'vscode-languageserver-protocol';
+import { createEditor, settle } from './helpers';
+
+describe('cancellation and timeouts', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    const hoverParams = { textDocument: { uri: 'file:///main.c' }, position: { line: 0, character: 0 } };
+
+    it('cancels requests replaced by newer ones and ignores their late results', async () => {
+        let answerX: (highlights: LSP.DocumentHighlight[]) => void = () => {};
+        const range = (from: number) => ({ start: { line: 0, character: from }, end: { line: 0, character: from + 1 } });
+        const editor = await createEditor('int x; int y;', {
+            capabilities: { documentHighlightProvider: true },
+            setup: (server) => {
+                // The highlights of x take until answered, those of y come
+                // right away
+                server.onRequest('textDocument/documentHighlight', ({ position }) => {
+                    if (position.character === 4) return new Promise((resolve) => (answerX = resolve));
+                    return position.character === 11 ? [{ range: range(11) }] : [];
+                });
+            },
+        });
+        view = editor.view;
+        const highlighted = () =>
+            [...view!.contentDOM.querySelectorAll('.cm-lsp-highlight')].map((span) => span.textContent);
+
+        view.dispatch({ selection: { anchor: 4 } });
+        await vi.waitUntil(() => editor.server.received.some(({ method, params }) =>
+            method === 'textDocument/documentHighlight' && params.position.character === 4));
+        const cancelled = editor.server.waitFor('$/cancelRequest');
+        view.dispatch({ selection: { anchor: 11 } });
+        expect(await cancelled).toEqual({ id: expect.any(String) });
+        await vi.waitUntil(() => highlighted().length);
+
+        answerX([{ range: range(4) }]);
+        await settle();
+        expect(highlighted()).toEqual(['y']);
+    });
+
+    it('cancels requests when their signal is aborted', async () => {
+        const editor = await createEditor('int x;', { capabilities: { hoverProvider: true } });
+        view = editor.view;
+        editor.server.onRequest('textDocument/hover', () => new Promise(() => {}));
+        const controller = new AbortController();
+        const hover = editor.client.textDocumentHover(hoverParams, controller.signal);
+        await editor.server.waitFor('textDocument/hover');
+
+        const cancelled = editor.server.waitFor('$/cancelRequest');
+        controller.abort();
+        await expect(hover).rejects.toMatchObject({ code: LSPErrorCodes.RequestCancelled });
+        await cancelled;
+    });
+
+    it('gives up on requests after their timeout', async () => {
+        const editor = await createEditor('int x;', {
+            capabilities: { hoverProvider: true, documentFormattingProvider: true },
+            timeouts: { 'textDocument/hover': 20 },
+        });
+        view = editor.view;
+        editor.server.onRequest('textDocument/hover', () => new Promise(() => {}));
+        editor.server.onRequest('textDocument/formatting', async () => {
+            await settle(50);
+            return [];
+        });
+
+        await expect(editor.client.textDocumentHover(hoverParams)).rejects.toThrow(/timeout/i);
+        // Other methods keep the default limit
+        await expect(
+            editor.client.textDocumentFormatting({ ...hoverParams, options: { tabSize: 4, insertSpaces: true } })
+        ).resolves.toEqual([]);
+    });
+});
@@ -0,0 +1,67 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { forEachDiagnostic } from '@codemirror/lint';
+import type { Diagnostic } from '@codemirror/lint';
+import { runScopeHandlers } from '@codemirror/view';
+import type { EditorView } from '@codemirror/view';
+import type * as LSP from 'vscode-languageserver-protocol';
+import { createEditor, documentUri, settle } from './helpers';
+
+const missingSemicolon: LSP.Diagnostic = {
+    range: { start: { line: 0, character: 5 }, end: { line: 0, character: 5 } },
+    message: 'Expected ;',
+};
+
+const addSemicolon: LSP.CodeAction = {
+    title: 'Add ;',
+    kind: 'quickfix',
+    diagnostics: [missingSemicolon],
+    edit: { changes: { [documentUri]: [{ range: missingSemicolon.range, newText: ';' }] } },
+};
+
+describe('code actions', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    it('attaches quick fixes to diagnostics', async () => {
+        const editor = await createEditor('int x', { capabilities: { codeActionProvider: true } });
+        view = editor.view;
+        editor.server.onRequest('textDocument/codeAction', ({ context }) =>
+            context.only?.includes('quickfix') ? [addSemicolon] : []);
+        editor.server.notify('textDocument/publishDiagnostics', { uri: documentUri, diagnostics: [missingSemicolon] });
+        const diagnostic = await vi.waitUntil(() => {
+            let found: Diagnostic | null = null;
+            forEachDiagnostic(view!.state, (d) => (found = d.actions?.length ? d : found));
+            return found as Diagnostic | null;
+        });
+        expect(diagnostic.actions!.map(({ name }) => name)).toEqual(['Add ;']);
+        diagnostic.actions![0].apply(view, 5, 5);
+        await settle();
+        expect(view.state.doc.toString()).toBe('int x;');
+    });
+
+    it('lists the actions at the cursor, preferred first, and runs the chosen one', async () => {
+        const editor = await createEditor('int x', {
+            capabilities: { codeActionProvider: true, executeCommandProvider: { commands: ['rename'] } },
+        });
+        view = editor.view;
+        const command = { title: 'Rename x', command: 'rename', arguments: ['x'] };
+        editor.server.onRequest('textDocument/codeAction', () => [
+            { title: 'Unavailable', disabled: { reason: 'No' } },
+            { title: 'Rename', command },
+            { ...addSemicolon, isPreferred: true },
+        ]);
+        editor.server.onRequest('workspace/executeCommand', () => null);
+        view.dispatch({ selection: { anchor: 5 } });
+        runScopeHandlers(view, new KeyboardEvent('keydown', { key: '.', ctrlKey: true }), 'editor');
+
+        const items = await vi.waitUntil(() => {
+            const items = view!.dom.querySelectorAll('.cm-lsp-picker-item');
+            return items.length ? [...items] : null;
+        });
+        expect(items.map((item) => item.firstChild?.textContent)).toEqual(['Add ;', 'Rename']);
+        const executed = editor.server.waitFor('workspace/executeCommand');
+        items[1].dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+        expect(await executed).toEqual({ command: 'rename', arguments: ['x'] });
+    });
+});
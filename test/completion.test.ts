@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import { acceptCompletion, completionStatus, currentCompletions, startCompletion } from '@codemirror/autocomplete';
+import type * as LSP from 'vscode-languageserver-protocol';
+import { createEditor, settle } from './helpers';
+
+describe('completion', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    const include: LSP.TextEdit = {
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+        newText: '#include <stdio.h>\n',
+    };
+
+    async function complete(
+        items: LSP.CompletionItem[],
+        resolve?: (item: LSP.CompletionItem) => LSP.CompletionItem
+    ) {
+        const editor = await createEditor('pri', {
+            capabilities: { completionProvider: { resolveProvider: !!resolve } },
+            setup: (server) => {
+                server.onRequest('textDocument/completion', () => items);
+                if (resolve) server.onRequest('completionItem/resolve', resolve);
+            },
+        });
+        view = editor.view;
+        view.dispatch({ selection: { anchor: 3 } });
+        startCompletion(view);
+        await vi.waitUntil(() => completionStatus(view!.state) === 'active');
+        // Completions can't be accepted right after they open
+        await settle(100);
+        return editor;
+    }
+
+    it('inserts snippets along with their additional edits', async () => {
+        await complete([{
+            label: 'printf',
+            insertText: 'printf(${1:format})',
+            insertTextFormat: 2,
+            additionalTextEdits: [include],
+        }]);
+        acceptCompletion(view!);
+        expect(view!.state.doc.toString()).toBe('#include <stdio.h>\nprintf(format)');
+        // The placeholder is selected
+        const { from, to } = view!.state.selection.main;
+        expect(view!.state.sliceDoc(from, to)).toBe('format');
+    });
+
+    it('applies the additional edits of resolved items', async () => {
+        const resolved: LSP.CompletionItem[] = [];
+        await complete([{ label: 'printf', data: 1 }], (item) => {
+            resolved.push(item);
+            return { ...item, additionalTextEdits: [include] };
+        });
+        acceptCompletion(view!);
+        await vi.waitUntil(() => view!.state.doc.toString() === '#include <stdio.h>\nprintf');
+        // Resolved once, for the documentation and the edits
+        expect(resolved).toEqual([{ label: 'printf', data: 1 }]);
+    });
+
+    it('orders preselected items first and inserts on commit characters', async () => {
+        await complete([
+            { label: 'print', commitCharacters: ['('] },
+            { label: 'printf', preselect: true, commitCharacters: ['('] },
+        ]);
+        expect(currentCompletions(view!.state).map(({ label }) => label)).toEqual(['printf', 'print']);
+        view!.contentDOM.dispatchEvent(new KeyboardEvent('keydown', { key: '(', bubbles: true }));
+        expect(view!.state.doc.toString()).toBe('printf');
+    });
+});
@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { forEachDiagnostic } from '@codemirror/lint';
+import type { Diagnostic } from '@codemirror/lint';
+import type { EditorView } from '@codemirror/view';
+import type * as LSP from 'vscode-languageserver-protocol';
+import { createEditor, documentUri, settle } from './helpers';
+
+describe('diagnostics', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    const range = (line: number, from: number, to: number) => ({
+        start: { line, character: from },
+        end: { line, character: to },
+    });
+    const diagnostics = () => {
+        const found: Diagnostic[] = [];
+        forEachDiagnostic(view!.state, (diagnostic) => found.push(diagnostic));
+        return found;
+    };
+
+    it('pulls diagnostics after changes and keeps unchanged ones', async () => {
+        const previousResultIds: (string | undefined)[] = [];
+        const editor = await createEditor('int x = y;', {
+            capabilities: { diagnosticProvider: { identifier: 'c', interFileDependencies: false, workspaceDiagnostics: false } },
+            setup: (server) => {
+                server.onRequest('textDocument/diagnostic', ({ identifier, previousResultId }): LSP.DocumentDiagnosticReport => {
+                    expect(identifier).toBe('c');
+                    previousResultIds.push(previousResultId);
+                    return previousResultId
+                        ? { kind: 'unchanged', resultId: previousResultId }
+                        : { kind: 'full', resultId: '1', items: [{ range: range(0, 8, 9), message: 'Undeclared y' }] };
+                });
+            },
+        });
+        view = editor.view;
+        editor.server.notify('textDocument/publishDiagnostics', {
+            uri: documentUri,
+            diagnostics: [{ range: range(0, 4, 5), message: 'Unused x', severity: 2 }],
+        });
+        await vi.waitUntil(() => diagnostics().length === 2);
+        expect(diagnostics().map(({ message, severity }) => [message, severity])).toEqual([
+            ['Unused x', 'warning'],
+            ['Undeclared y', 'error'],
+        ]);
+
+        view.dispatch({ changes: { from: 10, insert: '\n' } });
+        await vi.waitUntil(() => previousResultIds.length === 2);
+        expect(previousResultIds).toEqual([undefined, '1']);
+        await settle();
+        expect(diagnostics()).toHaveLength(2);
+    });
+
+    it('shows tags, codes and related locations', async () => {
+        const onNavigate = vi.fn();
+        const editor = await createEditor('int x = 1;\nold();', { onNavigate });
+        view = editor.view;
+        const other = { uri: 'file:///other.c', range: range(2, 0, 5) };
+        editor.server.notify('textDocument/publishDiagnostics', {
+            uri: documentUri,
+            diagnostics: [
+                { range: range(0, 4, 5), message: 'Unused x', tags: [1] },
+                {
+                    range: range(1, 0, 3),
+                    message: 'Deprecated',
+                    tags: [2],
+                    code: 'W12',
+                    codeDescription: { href: 'https://example.com/W12' },
+                    relatedInformation: [
+                        { location: { uri: documentUri, range: range(0, 4, 5) }, message: 'x is here' },
+                        { location: other, message: 'old is declared here' },
+                    ],
+                },
+            ],
+        });
+        await vi.waitUntil(() => diagnostics().length === 2);
+        expect(diagnostics().map(({ markClass }) => markClass)).toEqual([
+            'cm-lsp-diagnostic-unnecessary',
+            'cm-lsp-diagnostic-deprecated',
+        ]);
+
+        const dom = diagnostics()[1].renderMessage!(view) as HTMLElement;
+        const code = dom.querySelector<HTMLAnchorElement>('.cm-lsp-diagnostic-code a')!;
+        expect([code.textContent, code.href]).toEqual(['W12', 'https://example.com/W12']);
+        const related = [...dom.querySelectorAll('.cm-lsp-diagnostic-related li')];
+        expect(related.map((item) => item.textContent)).toEqual([
+            '1:5 x is here',
+            'other.c:3:1 old is declared here',
+        ]);
+
+        related[0].querySelector('a')!.click();
+        expect(view.state.selection.main).toMatchObject({ from: 4, to: 5 });
+        related[1].querySelector('a')!.click();
+        expect(onNavigate).toHaveBeenCalledWith(other.uri, other.range);
+    });
+});
@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import type * as LSP from 'vscode-languageserver-protocol';
+import { nextDocumentHighlight, previousDocumentHighlight } from '../src/index';
+import { createEditor } from './helpers';
+
+describe('document highlights', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    const range = (line: number, from: number, to: number) => ({
+        start: { line, character: from },
+        end: { line, character: to },
+    });
+    const highlights = () =>
+        [...view!.contentDOM.querySelectorAll('.cm-lsp-highlight')].map((span) => span.className.split(' ')[1]);
+
+    it('highlights the occurrences of the symbol at the cursor', async () => {
+        const editor = await createEditor('int x = 1;\nx = x + 1;', {
+            capabilities: { documentHighlightProvider: true },
+            setup: (server) => {
+                // Only `x` at the cursor has occurrences
+                server.onRequest('textDocument/documentHighlight', ({ position }): LSP.DocumentHighlight[] =>
+                    position.line === 0 && position.character === 4
+                        ? [
+                            { range: range(0, 4, 5), kind: 1 },
+                            { range: range(1, 0, 1), kind: 3 },
+                            { range: range(1, 4, 5), kind: 2 },
+                        ]
+                        : []);
+            },
+        });
+        view = editor.view;
+        view.dispatch({ selection: { anchor: 4 } });
+        await vi.waitUntil(() => highlights().length === 3);
+        expect(highlights()).toEqual(['cm-lsp-highlight-text', 'cm-lsp-highlight-write', 'cm-lsp-highlight-read']);
+
+        nextDocumentHighlight(view);
+        expect(view.state.selection.main).toMatchObject({ from: 11, to: 12 });
+        previousDocumentHighlight(view);
+        previousDocumentHighlight(view);
+        // Wraps around to the last one
+        expect(view.state.selection.main).toMatchObject({ from: 15, to: 16 });
+    });
+
+    it('clears the highlights away from symbols', async () => {
+        const editor = await createEditor('int x = 1;', {
+            capabilities: { documentHighlightProvider: true },
+            setup: (server) => {
+                server.onRequest('textDocument/documentHighlight', () => [{ range: range(0, 4, 5) }]);
+            },
+        });
+        view = editor.view;
+        view.dispatch({ selection: { anchor: 4 } });
+        await vi.waitUntil(() => highlights().length === 1);
+        view.dispatch({ selection: { anchor: 6 } });
+        await vi.waitUntil(() => highlights().length === 0);
+    });
+});
@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { foldable, foldedRanges } from '@codemirror/language';
+import type { EditorView } from '@codemirror/view';
+import type * as LSP from 'vscode-languageserver-protocol';
+import { foldAllComments, foldingRangePlaceholder } from '../src/index';
+import { createEditor, settle } from './helpers';
+
+describe('folding', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    const doc = '/* a\n b */\nint f() {\n    return 1;\n}';
+    const ranges: LSP.FoldingRange[] = [
+        { startLine: 0, endLine: 1, kind: 'comment', collapsedText: '/* a */' },
+        { startLine: 2, startCharacter: 9, endLine: 4, endCharacter: 0 },
+    ];
+
+    it('folds the ranges of the server', async () => {
+        const editor = await createEditor(doc, {
+            capabilities: { foldingRangeProvider: true },
+            extensions: [foldingRangePlaceholder],
+            setup: (server) => server.onRequest('textDocument/foldingRange', () => ranges),
+        });
+        view = editor.view;
+        await vi.waitUntil(() => foldable(view!.state, 11, 20));
+        expect(foldable(view.state, 11, 20)).toEqual({ from: 20, to: 35 });
+        expect(foldable(view.state, 0, 4)).toEqual({ from: 4, to: 10 });
+
+        expect(foldAllComments(view)).toBe(true);
+        const folded: [number, number][] = [];
+        foldedRanges(view.state).between(0, view.state.doc.length, (from, to) => {
+            folded.push([from, to]);
+        });
+        expect(folded).toEqual([[4, 10]]);
+        expect(view.contentDOM.querySelector('.cm-foldPlaceholder')!.textContent).toBe('/* a */');
+        // Already folded
+        expect(foldAllComments(view)).toBe(false);
+    });
+
+    it('asks for ranges once per version and maps them until then', async () => {
+        const editor = await createEditor(doc, {
+            capabilities: { foldingRangeProvider: true },
+            setup: (server) => server.onRequest('textDocument/foldingRange', () => ranges),
+        });
+        view = editor.view;
+        const requests = () => editor.server.received.filter(({ method }) => method === 'textDocument/foldingRange');
+        await vi.waitUntil(() => foldable(view!.state, 11, 20));
+        view.dispatch({ selection: { anchor: 20 } });
+        await settle();
+        expect(requests()).toHaveLength(1);
+
+        editor.server.onRequest('textDocument/foldingRange', () => new Promise(() => {}));
+        view.dispatch({ changes: { from: 0, insert: '\n' } });
+        // Mapped through the edit while the server has not answered
+        expect(foldable(view.state, 12, 21)).toEqual({ from: 21, to: 36 });
+        await vi.waitUntil(() => requests().length === 2);
+    });
+});
@@ -0,0 +1,32 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import { formatDocument } from '../src/index';
+import { createEditor, documentUri, settle } from './helpers';
+
+describe('formatting', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    it('formats a document with a prefix and suffix', async () => {
+        const editor = await createEditor('int   x;', {
+            prefix: '// pre\n',
+            suffix: '\n// post',
+            capabilities: { documentFormattingProvider: true },
+        });
+        view = editor.view;
+        // Formatting the whole text replaces the prefix and suffix too
+        editor.server.onRequest('textDocument/formatting', () => [
+            {
+                range: { start: { line: 0, character: 0 }, end: { line: 2, character: 7 } },
+                newText: '// pre\nint x;\n// post',
+            },
+        ]);
+        const request = editor.server.waitFor('textDocument/formatting');
+        formatDocument(view);
+        expect((await request).textDocument.uri).toBe(documentUri);
+        await settle();
+        expect(view.state.doc.toString()).toBe('int x;');
+        expect(editor.server.documents.get(documentUri)?.text).toBe('// pre\nint x;\n// post');
+    });
+});
@@ -0,0 +1,63 @@
+import { EditorView } from '@codemirror/view';
+import type { Extension } from '@codemirror/state';
+import type * as LSP from 'vscode-languageserver-protocol';
+import { LanguageServerClient, languageServerWithTransport } from '../src/index';
+import { InMemoryTransport, MockLanguageServer } from '../src/testing';
+
+export const documentUri = 'file:///main.c';
+
+// jsdom lays nothing out, and lacks the measuring and scrolling that
+// tooltips and panels do
+if (!Range.prototype.getClientRects) {
+    Range.prototype.getClientRects = () => [] as unknown as DOMRectList;
+    Range.prototype.getBoundingClientRect = () => new DOMRect();
+}
+if (!Element.prototype.scrollIntoView) Element.prototype.scrollIntoView = () => {};
+
+type Options = Parameters<typeof languageServerWithTransport>[0];
+
+// An editor connected to a mock server, once the document is open. `setup`
+// gets the server before the client connects, to answer the first requests.
+// Other options go to both the client and the editor.
+export async function createEditor(
+    doc: string,
+    {
+        capabilities = {},
+        extensions = [],
+        setup,
+        ...rest
+    }: {
+        capabilities?: LSP.ServerCapabilities;
+        extensions?: Extension[];
+        setup?: (server: MockLanguageServer) => void;
+    } & Partial<Options> = {}
+) {
+    const transport = new InMemoryTransport();
+    const server = new MockLanguageServer(transport.server, { capabilities });
+    setup?.(server);
+    const opened = server.waitFor('textDocument/didOpen');
+    const options: Options = {
+        transport,
+        rootUri: 'file:///',
+        workspaceFolders: null,
+        documentUri,
+        languageId: 'c',
+        prefix: '',
+        suffix: '',
+        changesDelay: 10,
+        ...rest,
+    };
+    const client = new LanguageServerClient({ ...options, autoClose: true });
+    const view = new EditorView({
+        doc,
+        parent: document.body,
+        extensions: [languageServerWithTransport({ ...options, client }), extensions],
+    });
+    await opened;
+    return { view, server, client };
+}
+
+// Lets queued messages and timers run
+export function settle(ms = 20) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
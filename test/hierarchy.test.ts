@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import type * as LSP from 'vscode-languageserver-protocol';
+import { showIncomingCalls, showSupertypes } from '../src/index';
+import { createEditor, documentUri } from './helpers';
+
+describe('call and type hierarchies', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    const range = (line: number, from: number, to: number) => ({
+        start: { line, character: from },
+        end: { line, character: to },
+    });
+    const hierarchyItem = (name: string, line: number, uri = documentUri): LSP.CallHierarchyItem => ({
+        name,
+        kind: 12,
+        uri,
+        range: range(line, 0, 17),
+        selectionRange: range(line, 5, 6),
+    });
+    const rows = () => [...view!.dom.querySelectorAll<HTMLElement>('.cm-lsp-tree-item')];
+
+    it('lists incoming calls and loads callers when expanded', async () => {
+        const a = hierarchyItem('a', 0);
+        const b = hierarchyItem('b', 1);
+        const editor = await createEditor('void a() {}\nvoid b() { a(); }', {
+            capabilities: { callHierarchyProvider: true },
+            setup: (server) => {
+                server.onRequest('textDocument/prepareCallHierarchy', () => [a]);
+                server.onRequest('callHierarchy/incomingCalls', ({ item }) =>
+                    item.name === 'a' ? [{ from: b, fromRanges: [range(1, 11, 12)] }] : []);
+            },
+        });
+        view = editor.view;
+        view.dispatch({ selection: { anchor: 5 } });
+        expect(showIncomingCalls(view)).toBe(true);
+
+        await vi.waitUntil(() => rows().length);
+        expect(view.dom.querySelector('.cm-lsp-tree-title')!.firstChild!.textContent).toBe('Incoming calls');
+        expect(rows().map((row) => row.textContent)).toEqual(['▸a1:6']);
+
+        rows()[0].querySelector<HTMLElement>('.cm-lsp-tree-toggle')!.click();
+        await vi.waitUntil(() => rows().length === 2);
+        expect(rows().map((row) => row.textContent)).toEqual(['▾a1:6', '▸b2:6']);
+        rows()[1].click();
+        expect(view.state.selection.main).toMatchObject({ from: 17, to: 18 });
+
+        view.dom.querySelector('.cm-lsp-tree-panel')!.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+        expect(view.dom.querySelector('.cm-lsp-tree-panel')).toBe(null);
+    });
+
+    it('lists supertypes and navigates to other documents', async () => {
+        const onNavigate = vi.fn();
+        const base = hierarchyItem('Base', 3, 'file:///base.h');
+        const editor = await createEditor('struct Derived : Base {};', {
+            onNavigate,
+            capabilities: { typeHierarchyProvider: true },
+            setup: (server) => {
+                server.onRequest('textDocument/prepareTypeHierarchy', () => [hierarchyItem('Derived', 0)]);
+                server.onRequest('typeHierarchy/supertypes', ({ item }) => (item.name === 'Derived' ? [base] : []));
+            },
+        });
+        view = editor.view;
+        view.dispatch({ selection: { anchor: 8 } });
+        showSupertypes(view);
+
+        await vi.waitUntil(() => rows().length);
+        rows()[0].querySelector<HTMLElement>('.cm-lsp-tree-toggle')!.click();
+        await vi.waitUntil(() => rows().length === 2);
+        expect(rows()[1].textContent).toBe('▸Basebase.h:4:6');
+        rows()[1].click();
+        expect(onNavigate).toHaveBeenCalledWith(base.uri, base.selectionRange);
+    });
+});
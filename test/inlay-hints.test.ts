@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import type * as LSP from 'vscode-languageserver-protocol';
+import { toggleInlayHints } from '../src/index';
+import { createEditor } from './helpers';
+
+describe('inlay hints', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    const hints = () => [...view!.contentDOM.querySelectorAll<HTMLElement>('.cm-lsp-inlay-hint')];
+    // `auto x = f(1);` with the type of x and the parameter of f
+    const typeHint: LSP.InlayHint = { position: { line: 0, character: 6 }, label: ': int', kind: 1 };
+    const parameterHint: LSP.InlayHint = {
+        position: { line: 0, character: 11 },
+        label: [{ value: 'count' }, { value: ':', command: { title: 'Show', command: 'show' } }],
+        kind: 2,
+        paddingRight: true,
+    };
+
+    it('shows the hints, runs their commands and toggles them', async () => {
+        const editor = await createEditor('auto x = f(1);', {
+            inlayHints: true,
+            capabilities: { inlayHintProvider: true, executeCommandProvider: { commands: ['show'] } },
+            setup: (server) => {
+                server.onRequest('textDocument/inlayHint', () => [typeHint, parameterHint]);
+                server.onRequest('workspace/executeCommand', () => null);
+            },
+        });
+        view = editor.view;
+        await vi.waitUntil(() => hints().length === 2);
+        expect(hints().map((hint) => [hint.textContent, hint.className])).toEqual([
+            [': int', 'cm-lsp-inlay-hint cm-lsp-inlay-hint-type'],
+            ['count:', 'cm-lsp-inlay-hint cm-lsp-inlay-hint-parameter cm-lsp-inlay-hint-padding-right'],
+        ]);
+        // The parameter hint comes before typing at its position
+        expect(view.contentDOM.textContent).toBe('auto x: int = f(count:1);');
+
+        const executed = editor.server.waitFor('workspace/executeCommand');
+        hints()[1].lastChild!.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+        expect(await executed).toMatchObject({ command: 'show' });
+
+        toggleInlayHints(view);
+        expect(hints()).toEqual([]);
+        toggleInlayHints(view);
+        await vi.waitUntil(() => hints().length === 2);
+    });
+
+    it('resolves tooltips on hover', async () => {
+        const editor = await createEditor('auto x = f(1);', {
+            inlayHints: true,
+            capabilities: { inlayHintProvider: { resolveProvider: true } },
+            setup: (server) => {
+                server.onRequest('textDocument/inlayHint', () => [typeHint]);
+                server.onRequest('inlayHint/resolve', (hint) => ({ ...hint, tooltip: 'Deduced from 0' }));
+            },
+        });
+        view = editor.view;
+        const [hint] = await vi.waitUntil(() => hints().length && hints());
+        expect(hint.title).toBe('');
+        hint.dispatchEvent(new MouseEvent('mouseenter'));
+        await vi.waitUntil(() => hint.title === 'Deduced from 0');
+    });
+
+    it('drops hints in the hidden prefix', async () => {
+        const editor = await createEditor('auto x = f(1);', {
+            inlayHints: true,
+            prefix: 'int f(int count);\n',
+            capabilities: { inlayHintProvider: true },
+            setup: (server) => {
+                server.onRequest('textDocument/inlayHint', () => [
+                    { position: { line: 0, character: 6 }, label: 'hidden' },
+                    { ...typeHint, position: { line: 1, character: 6 } },
+                ]);
+            },
+        });
+        view = editor.view;
+        await vi.waitUntil(() => hints().length);
+        expect(hints().map((hint) => hint.textContent)).toEqual([': int']);
+    });
+});
@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import type { ConnectionState } from '../src/index';
+import { InMemoryTransport, MockLanguageServer } from '../src/testing';
+import { createEditor, documentUri } from './helpers';
+
+describe('connection lifecycle', () => {
+    it('shuts the server down before closing', async () => {
+        const { view, server, client } = await createEditor('int x;');
+        const exited = server.waitFor('exit');
+        await client.close();
+        await exited;
+
+        const methods = server.received.map(({ method }) => method);
+        expect(methods.slice(-2)).toEqual(['shutdown', 'exit']);
+        expect(client.state).toBe('disconnected');
+        view.destroy();
+    });
+
+    it('reconnects and reopens documents when the connection drops', async () => {
+        const next = new InMemoryTransport();
+        const nextServer = new MockLanguageServer(next.server);
+        const reopened = nextServer.waitFor('textDocument/didOpen');
+        const { view, server, client } = await createEditor('int x;', { reconnect: () => next });
+        const states: ConnectionState[] = [];
+        client.onStateChange((state) => states.push(state));
+
+        server.close();
+        await vi.waitUntil(() => client.state === 'disconnected');
+        view.dispatch({ changes: { from: 0, insert: '// offline\n' } });
+
+        const { textDocument } = await reopened;
+        expect(textDocument.uri).toBe(documentUri);
+        expect(textDocument.text).toBe('// offline\nint x;');
+        await vi.waitUntil(() => client.state === 'ready');
+        expect(states).toEqual(['disconnected', 'connecting', 'ready']);
+        expect(nextServer.received.map(({ method }) => method).slice(0, 2)).toEqual(['initialize', 'initialized']);
+        view.destroy();
+    });
+
+    it('fails when it can not reconnect', async () => {
+        const { view, server, client } = await createEditor('int x;', { reconnect: false });
+        server.close();
+        await vi.waitUntil(() => client.state === 'failed');
+        view.destroy();
+    });
+
+    it('gives up after the last reconnect attempt', async () => {
+        const { view, server, client } = await createEditor('int x;', {
+            reconnect: () => new InMemoryTransport(),
+            maxReconnectAttempts: 0,
+        });
+        server.close();
+        await vi.waitUntil(() => client.state === 'failed');
+        view.destroy();
+    });
+});
@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { currentCompletions, startCompletion } from '@codemirror/autocomplete';
+import type { EditorView } from '@codemirror/view';
+import { MarkupKind } from 'vscode-languageserver-protocol';
+import { createEditor } from './helpers';
+
+describe('markdown', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    // Renders markdown as the documentation of a completion
+    async function render(markdown: string) {
+        const editor = await createEditor('', { capabilities: { completionProvider: {} } });
+        view = editor.view;
+        editor.server.onRequest('textDocument/completion', () => [
+            { label: 'item', documentation: { kind: MarkupKind.Markdown, value: markdown } },
+        ]);
+        startCompletion(view);
+        const completion = await vi.waitUntil(() => currentCompletions(editor.view.state)[0]);
+        return (completion.info as () => HTMLElement)();
+    }
+
+    const text = (element: Element | null) => element?.textContent?.trim();
+
+    it('renders block and inline elements', async () => {
+        const dom = await render('# Title\n\nSome *emphasis*, **strong** and `code`.\n\n- one\n- two\n\n> quote');
+        expect(text(dom.querySelector('h1'))).toBe('Title');
+        expect(text(dom.querySelector('p'))).toBe('Some emphasis, strong and code.');
+        expect(text(dom.querySelector('em'))).toBe('emphasis');
+        expect(text(dom.querySelector('strong'))).toBe('strong');
+        expect(text(dom.querySelector('p code'))).toBe('code');
+        expect(Array.from(dom.querySelectorAll('li'), text)).toEqual(['one', 'two']);
+        expect(text(dom.querySelector('blockquote'))).toBe('quote');
+    });
+
+    it('renders code blocks without a known language as plain text', async () => {
+        const dom = await render('```c\nint x = 1 < 2;\n```');
+        expect(dom.querySelector('pre')?.textContent).toBe('int x = 1 < 2;');
+    });
+
+    it('renders tables', async () => {
+        const dom = await render('| a | b |\n| - | - |\n| 1 | 2 |');
+        expect(Array.from(dom.querySelectorAll('tr'), (row) => Array.from(row.children, text))).toEqual([
+            ['a', 'b'],
+            ['1', '2'],
+        ]);
+    });
+
+    it('never interprets HTML', async () => {
+        const dom = await render('<img src=x onerror="alert(1)"> and <b>bold</b><br>\n\n<div>block</div>');
+        expect(dom.querySelector('img, b, div')).toBeNull();
+        expect(dom.querySelector('br')).not.toBeNull();
+        expect(Array.from(dom.querySelectorAll('p'), text)).toEqual(['and bold', 'block']);
+    });
+
+    it('only links to web and mail addresses', async () => {
+        const dom = await render('[web](https://example.com) [mail](mailto:a@example.com) [script](javascript:alert(1))');
+        const links = Array.from(dom.querySelectorAll('a'), (link) => [text(link), link.getAttribute('href')]);
+        expect(links).toEqual([
+            ['web', 'https://example.com'],
+            ['mail', 'mailto:a@example.com'],
+        ]);
+        expect(dom.textContent).toContain('script');
+    });
+
+    it('decodes entities', async () => {
+        const dom = await render('a &amp; b &lt; c &#65; &#x42; &#0; &#xD800;');
+        expect(text(dom)).toBe('a & b < c A B � �');
+    });
+});
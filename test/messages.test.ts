@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import type { LogEntry } from '../src/index';
+import { createEditor } from './helpers';
+
+describe('progress and messages', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    it('keeps the latest logged and shown messages', async () => {
+        const editor = await createEditor('', { logSize: 2, onShowMessage: () => {} });
+        view = editor.view;
+        const entries: LogEntry[] = [];
+        editor.client.onLogMessage((entry) => entries.push(entry));
+        editor.server.notify('window/logMessage', { type: 4, message: 'Starting' });
+        editor.server.notify('window/logMessage', { type: 3, message: 'Indexing' });
+        editor.server.notify('window/showMessage', { type: 1, message: 'Failed' });
+        await vi.waitUntil(() => entries.length === 3);
+
+        expect(entries.map(({ type, message }) => [type, message])).toEqual([
+            [4, 'Starting'],
+            [3, 'Indexing'],
+            [1, 'Failed'],
+        ]);
+        expect(editor.client.log.map(({ message }) => message)).toEqual(['Indexing', 'Failed']);
+    });
+
+    it('shows messages in a panel until dismissed', async () => {
+        const editor = await createEditor('');
+        view = editor.view;
+        const messages = () => [...view!.dom.querySelectorAll('.cm-lsp-message')];
+        editor.server.notify('window/showMessage', { type: 1, message: 'Failed' });
+        editor.server.notify('window/showMessage', { type: 3, message: 'Done' });
+        await vi.waitUntil(() => messages().length === 2);
+        expect(messages().map((item) => [item.className, item.textContent])).toEqual([
+            ['cm-lsp-message cm-lsp-message-error', '×Failed'],
+            ['cm-lsp-message cm-lsp-message-info', '×Done'],
+        ]);
+
+        messages()[0].querySelector('button')!.click();
+        expect(messages().map((item) => item.textContent)).toEqual(['×Done']);
+        view.dom.querySelector('.cm-lsp-messages')!.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+        expect(messages()).toEqual([]);
+    });
+
+    it('hands messages to onShowMessage instead', async () => {
+        const onShowMessage = vi.fn();
+        const editor = await createEditor('', { onShowMessage });
+        view = editor.view;
+        editor.server.notify('window/showMessage', { type: 2, message: 'Careful' });
+        await vi.waitUntil(() => onShowMessage.mock.calls.length);
+        expect(onShowMessage).toHaveBeenCalledWith({ type: 2, message: 'Careful' });
+        expect(view.dom.querySelector('.cm-lsp-messages')).toBe(null);
+    });
+
+    it('shows progress until it ends and cancels it', async () => {
+        const editor = await createEditor('');
+        view = editor.view;
+        const progress = () => view!.dom.querySelector('.cm-lsp-progress-item');
+        await editor.server.request('window/workDoneProgress/create', { token: 'index' });
+        editor.server.notify('$/progress', {
+            token: 'index',
+            value: { kind: 'begin', title: 'Indexing', message: '1/4', percentage: 25, cancellable: true },
+        });
+        await vi.waitUntil(() => progress());
+        expect(progress()!.textContent).toBe('Indexing 1/4 25%Cancel');
+        expect(editor.client.progress.get('index')).toMatchObject({ title: 'Indexing', percentage: 25 });
+
+        editor.server.notify('$/progress', { token: 'index', value: { kind: 'report', message: '2/4', percentage: 50 } });
+        await vi.waitUntil(() => progress()!.textContent === 'Indexing 2/4 50%Cancel');
+
+        const cancelled = editor.server.waitFor('window/workDoneProgress/cancel');
+        progress()!.querySelector('button')!.click();
+        expect(await cancelled).toEqual({ token: 'index' });
+
+        editor.server.notify('$/progress', { token: 'index', value: { kind: 'end' } });
+        await vi.waitUntil(() => !progress());
+        expect(editor.client.progress.size).toBe(0);
+    });
+});
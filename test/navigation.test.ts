@@ -0,0 +1,37 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { Prec } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import type * as LSP from 'vscode-languageserver-protocol';
+import { createEditor } from './helpers';
+
+describe('navigation', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    // Whether a Ctrl/Cmd-click on the first word is left to other handlers
+    async function clickPassesThrough(capabilities: LSP.ServerCapabilities) {
+        let passed = false;
+        const editor = await createEditor('int x;', {
+            capabilities,
+            extensions: [Prec.low(EditorView.domEventHandlers({ mousedown: () => (passed = true) && false }))],
+        });
+        view = editor.view;
+        editor.server.onRequest('textDocument/definition', () => null);
+        const definition = editor.server.waitFor('textDocument/definition');
+        const event = new MouseEvent('mousedown', { bubbles: true, cancelable: true, ctrlKey: true, metaKey: true });
+        view.contentDOM.dispatchEvent(event);
+        return { passed, definition };
+    }
+
+    it('goes to the definition on Ctrl/Cmd-click', async () => {
+        const { passed, definition } = await clickPassesThrough({ definitionProvider: true });
+        expect(passed).toBe(false);
+        expect((await definition).position).toEqual({ line: 0, character: 0 });
+    });
+
+    it('leaves Ctrl/Cmd-click to the editor without definitions', async () => {
+        const { passed } = await clickPassesThrough({});
+        expect(passed).toBe(true);
+    });
+});
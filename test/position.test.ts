@@ -0,0 +1,120 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { currentCompletions, startCompletion } from '@codemirror/autocomplete';
+import { forEachDiagnostic } from '@codemirror/lint';
+import type { EditorView } from '@codemirror/view';
+import type * as LSP from 'vscode-languageserver-protocol';
+import { findReferences } from '../src/index';
+import { createEditor, documentUri, settle } from './helpers';
+
+const range = (startLine: number, startCharacter: number, endLine: number, endCharacter: number): LSP.Range => ({
+    start: { line: startLine, character: startCharacter },
+    end: { line: endLine, character: endCharacter },
+});
+
+function diagnostics(view: EditorView) {
+    const found: { from: number; to: number; message: string }[] = [];
+    forEachDiagnostic(view.state, ({ message }, from, to) => found.push({ from, to, message }));
+    return found;
+}
+
+describe('position mapping', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    async function publish(diagnostics: LSP.Diagnostic[]) {
+        const editor = await createEditor('int x;\nint y;', { prefix: '#include <a>\n', suffix: '\nint z;' });
+        view = editor.view;
+        editor.server.notify('textDocument/publishDiagnostics', { uri: documentUri, diagnostics });
+        await settle();
+        return editor.view;
+    }
+
+    it('maps ranges past the prefix', async () => {
+        const view = await publish([
+            { range: range(1, 4, 1, 5), message: 'x' },
+            { range: range(2, 4, 2, 5), message: 'y' },
+        ]);
+        expect(diagnostics(view)).toEqual([
+            { from: 4, to: 5, message: 'x' },
+            { from: 11, to: 12, message: 'y' },
+        ]);
+    });
+
+    it('drops ranges in the prefix and suffix', async () => {
+        const view = await publish([
+            { range: range(0, 0, 0, 8), message: 'prefix' },
+            { range: range(3, 0, 3, 3), message: 'suffix' },
+        ]);
+        expect(diagnostics(view)).toEqual([]);
+    });
+
+    it('clips ranges reaching into the prefix and suffix', async () => {
+        const view = await publish([
+            { range: range(0, 2, 1, 3), message: 'start' },
+            { range: range(2, 0, 3, 3), message: 'end' },
+        ]);
+        expect(diagnostics(view)).toEqual([
+            { from: 0, to: 3, message: 'start' },
+            { from: 7, to: 13, message: 'end' },
+        ]);
+    });
+
+    it('clips characters past the end of a line', async () => {
+        const view = await publish([{ range: range(1, 2, 1, 100), message: 'long' }]);
+        expect(diagnostics(view)).toEqual([{ from: 2, to: 6, message: 'long' }]);
+    });
+
+    it('sends positions after the prefix', async () => {
+        const editor = await createEditor('int x;\nint y;', {
+            prefix: '#include <a>\n',
+            capabilities: { referencesProvider: true },
+        });
+        view = editor.view;
+        editor.server.onRequest('textDocument/references', () => []);
+        view.dispatch({ selection: { anchor: 11 } });
+        const request = editor.server.waitFor('textDocument/references');
+        findReferences(view);
+        expect((await request).position).toEqual({ line: 2, character: 4 });
+    });
+
+    async function applyEdit(edits: LSP.TextEdit[]) {
+        const editor = await createEditor('int x;', { prefix: '// pre\n', suffix: '\n// post' });
+        view = editor.view;
+        const applied = await editor.server.request('workspace/applyEdit', { edit: { changes: { [documentUri]: edits } } });
+        await settle();
+        return { ...editor, applied };
+    }
+
+    it('trims hidden text from edits reaching into the prefix and suffix', async () => {
+        const { view, server } = await applyEdit([{ range: range(0, 0, 2, 7), newText: '// pre\nint  x;\n// post' }]);
+        expect(view.state.doc.toString()).toBe('int  x;');
+        expect(server.documents.get(documentUri)?.text).toBe('// pre\nint  x;\n// post');
+    });
+
+    it('drops edits that change the prefix and suffix', async () => {
+        const { view } = await applyEdit([
+            { range: range(0, 0, 1, 3), newText: '// other\nlong' },
+            { range: range(1, 5, 2, 2), newText: ';\n#' },
+        ]);
+        expect(view.state.doc.toString()).toBe('int x;');
+    });
+
+    it('completes with an empty range at the end of the document', async () => {
+        const editor = await createEditor('int x', {
+            suffix: '\nint z;',
+            capabilities: { completionProvider: {} },
+        });
+        view = editor.view;
+        editor.server.onRequest('textDocument/completion', () => [
+            { label: 'xyz', textEdit: { range: range(0, 5, 0, 5), newText: 'yz' } },
+        ]);
+        view.dispatch({ selection: { anchor: 5 } });
+        startCompletion(view);
+        const [completion] = await vi.waitUntil(() => {
+            const completions = currentCompletions(editor.view.state);
+            return completions.length ? completions : null;
+        });
+        expect(completion.label).toBe('xyz');
+    });
+});
@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import { didSaveDocument, willSaveDocument } from '../src/index';
+import { createEditor, documentUri, settle } from './helpers';
+
+describe('saving and configuration', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    const methods = (received: { method: string }[]) =>
+        received.map(({ method }) => method).filter((method) => method.startsWith('textDocument/'));
+
+    it('sends pending changes and applies the edits asked for before saving', async () => {
+        const editor = await createEditor('import b;\nimport a;', {
+            capabilities: { textDocumentSync: { openClose: true, change: 2, willSave: true, willSaveWaitUntil: true } },
+            setup: (server) => {
+                server.onRequest('textDocument/willSaveWaitUntil', () => [{
+                    range: { start: { line: 0, character: 0 }, end: { line: 2, character: 0 } },
+                    newText: 'import a;\nimport b;\n',
+                }]);
+            },
+        });
+        view = editor.view;
+        view.dispatch({ changes: { from: view.state.doc.length, insert: '\n' } });
+
+        await willSaveDocument(view);
+        expect(view.state.doc.toString()).toBe('import a;\nimport b;\n');
+        expect(methods(editor.server.received)).toEqual([
+            'textDocument/didOpen',
+            'textDocument/didChange',
+            'textDocument/willSave',
+            'textDocument/willSaveWaitUntil',
+        ]);
+        expect(editor.server.received.find(({ method }) => method === 'textDocument/willSave')!.params)
+            .toEqual({ textDocument: { uri: documentUri }, reason: 1 });
+    });
+
+    it('sends the text the server saw when saved, if it wants it', async () => {
+        const editor = await createEditor('int x;', {
+            prefix: '#include <a.h>\n',
+            capabilities: { textDocumentSync: { openClose: true, change: 2, save: { includeText: true } } },
+        });
+        view = editor.view;
+        view.dispatch({ changes: { from: 6, insert: ' int y;' } });
+        const saved = editor.server.waitFor('textDocument/didSave');
+        await didSaveDocument(view);
+        expect(await saved).toEqual({ textDocument: { uri: documentUri }, text: '#include <a.h>\nint x; int y;' });
+    });
+
+    it('leaves the server out of saving unless it asks to take part', async () => {
+        const editor = await createEditor('int x;', { capabilities: { textDocumentSync: { openClose: true, change: 2 } } });
+        view = editor.view;
+        await willSaveDocument(view);
+        await didSaveDocument(view);
+        await settle();
+        expect(methods(editor.server.received)).toEqual(['textDocument/didOpen']);
+    });
+
+    it('answers configuration requests from updated settings', async () => {
+        const editor = await createEditor('', { settings: { c: { standard: 'c11' } } });
+        view = editor.view;
+        expect(await editor.server.request('workspace/configuration', { items: [{ section: 'c.standard' }] }))
+            .toEqual(['c11']);
+
+        const changed = editor.server.waitFor('workspace/didChangeConfiguration');
+        await editor.client.updateConfiguration({ c: { standard: 'c17' } });
+        expect(await changed).toEqual({ settings: { c: { standard: 'c17' } } });
+        expect(await editor.server.request('workspace/configuration', { items: [{ section: 'c' }, { section: 'cpp' }] }))
+            .toEqual([{ standard: 'c17' }, null]);
+    });
+});
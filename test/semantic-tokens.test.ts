@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import { createEditor } from './helpers';
+
+describe('semantic tokens', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    const legend = { tokenTypes: ['type', 'variable'], tokenModifiers: ['declaration'] };
+    const tokens = () =>
+        [...view!.contentDOM.querySelectorAll('[class*=cm-lsp-semantic-]')].map((span) => [span.textContent, span.className]);
+
+    it('marks tokens and updates them with deltas', async () => {
+        const deltas: unknown[] = [];
+        const editor = await createEditor('int x;', {
+            semanticTokens: true,
+            capabilities: { semanticTokensProvider: { legend, full: { delta: true } } },
+            setup: (server) => {
+                server.onRequest('textDocument/semanticTokens/full', () => ({
+                    resultId: '1',
+                    data: [0, 0, 3, 0, 0, 0, 4, 1, 1, 1],
+                }));
+                server.onRequest('textDocument/semanticTokens/full/delta', ({ previousResultId }) => {
+                    deltas.push(previousResultId);
+                    return previousResultId === '1'
+                        ? { resultId: '2', edits: [{ start: 10, deleteCount: 0, data: [1, 0, 3, 0, 0, 0, 4, 1, 1, 0] }] }
+                        : { resultId: '3', edits: [{ start: 0, deleteCount: 5 }] };
+                });
+            },
+        });
+        view = editor.view;
+
+        await vi.waitUntil(() => tokens().length === 2);
+        expect(tokens()).toEqual([
+            ['int', 'cm-lsp-semantic-type'],
+            ['x', 'cm-lsp-semantic-variable cm-lsp-semantic-mod-declaration'],
+        ]);
+
+        view.dispatch({ changes: { from: 6, insert: '\nint y;' } });
+        await vi.waitUntil(() => tokens().length === 4);
+        expect(tokens()[3]).toEqual(['y', 'cm-lsp-semantic-variable']);
+
+        // The server asks for the tokens again
+        await editor.server.request('workspace/semanticTokens/refresh', null);
+        await vi.waitUntil(() => tokens().length === 3);
+        expect(deltas).toEqual(['1', '2']);
+    });
+
+    it('does not ask for tokens unless enabled', async () => {
+        const editor = await createEditor('int x;', {
+            capabilities: { semanticTokensProvider: { legend, full: true } },
+        });
+        view = editor.view;
+        view.dispatch({ changes: { from: 6, insert: ' int y;' } });
+        await editor.server.waitFor('textDocument/didChange');
+        expect(editor.server.received.some(({ method }) => method.startsWith('textDocument/semanticTokens'))).toBe(false);
+    });
+});
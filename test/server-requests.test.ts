@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import { ErrorCodes } from 'vscode-languageserver-protocol';
+import { createEditor } from './helpers';
+
+describe('requests from the server', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    it('answers configuration requests from the settings', async () => {
+        const editor = await createEditor('', { settings: { c: { standard: 'c11' } } });
+        view = editor.view;
+        const result = await editor.server.request('workspace/configuration', {
+            items: [{ section: 'c.standard' }, { section: 'c.missing' }, {}],
+        });
+        expect(result).toEqual(['c11', null, { c: { standard: 'c11' } }]);
+    });
+
+    it('registers and unregisters capabilities', async () => {
+        const editor = await createEditor('');
+        view = editor.view;
+        await editor.server.request('client/registerCapability', {
+            registrations: [{ id: 'hover', method: 'textDocument/hover', registerOptions: {} }],
+        });
+        expect(editor.client.capabilities.hoverProvider).toBeTruthy();
+        await editor.server.request('client/unregisterCapability', {
+            unregisterations: [{ id: 'hover', method: 'textDocument/hover' }],
+        });
+        expect(editor.client.capabilities.hoverProvider).toBeFalsy();
+    });
+
+    it('answers with handlers registered on the client', async () => {
+        const editor = await createEditor('');
+        view = editor.view;
+        editor.client.onRequest('window/showMessageRequest', ({ actions }) => actions?.[1] ?? null);
+        const result = await editor.server.request('window/showMessageRequest', {
+            type: 1,
+            message: 'Reload?',
+            actions: [{ title: 'No' }, { title: 'Yes' }],
+        });
+        expect(result).toEqual({ title: 'Yes' });
+    });
+
+    it('answers failing handlers and unknown methods with errors', async () => {
+        const editor = await createEditor('');
+        view = editor.view;
+        editor.client.onRequest('workspace/applyEdit', () => {
+            throw new Error('Read-only');
+        });
+        await expect(editor.server.request('workspace/applyEdit', { edit: {} })).rejects.toMatchObject({
+            code: ErrorCodes.InternalError,
+            message: 'Read-only',
+        });
+        const unknown = editor.server.request('workspace/unknown' as 'workspace/semanticTokens/refresh', null);
+        await expect(unknown).rejects.toMatchObject({ code: ErrorCodes.MethodNotFound });
+    });
+});
@@ -0,0 +1,80 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { EditorView } from '@codemirror/view';
+import { TextDocumentSyncKind } from 'vscode-languageserver-protocol';
+import { LanguageServerClient, languageServerWithTransport } from '../src/index';
+import { InMemoryTransport, MockLanguageServer } from '../src/testing';
+import { settle } from './helpers';
+
+const documentUri = 'file:///a.c';
+const options = { rootUri: 'file:///', workspaceFolders: null, documentUri, languageId: 'c', prefix: '', suffix: '' };
+
+describe('editors showing the same document', () => {
+    let transport: InMemoryTransport;
+    let server: MockLanguageServer;
+    let client: LanguageServerClient;
+    let views: EditorView[];
+
+    beforeEach(() => {
+        transport = new InMemoryTransport();
+        server = new MockLanguageServer(transport.server, {
+            capabilities: { textDocumentSync: TextDocumentSyncKind.Incremental },
+        });
+        client = new LanguageServerClient({ ...options, transport });
+        views = [];
+    });
+
+    afterEach(() => {
+        for (const view of views) view.destroy();
+        client.close();
+    });
+
+    function show(doc: string) {
+        const view = new EditorView({
+            doc,
+            parent: document.body,
+            extensions: languageServerWithTransport({ ...options, client, transport, changesDelay: 10 }),
+        });
+        views.push(view);
+        return view;
+    }
+
+    const changes = () => server.received.filter(({ method }) => method === 'textDocument/didChange');
+
+    it('sends each edit once', async () => {
+        show('int x;');
+        show('int x;');
+        await settle();
+        await server.request('workspace/applyEdit', {
+            edit: {
+                changes: {
+                    [documentUri]: [{ range: { start: { line: 0, character: 4 }, end: { line: 0, character: 5 } }, newText: 'yy' }],
+                },
+            },
+        });
+        await settle();
+        // The host keeps the other editor's text the same
+        expect(views[0].state.doc.toString()).toBe('int yy;');
+        expect(server.documents.get(documentUri)?.text).toBe('int yy;');
+        expect(changes()).toHaveLength(1);
+    });
+
+    it('hands syncing over when the first editor closes', async () => {
+        const first = show('int x;');
+        const second = show('int x;');
+        await settle();
+        first.dispatch({ changes: { from: 5, insert: ', y' } });
+        second.dispatch({ changes: { from: 5, insert: ', y' } });
+        await settle();
+        expect(server.documents.get(documentUri)?.text).toBe('int x, y;');
+
+        first.destroy();
+        views.shift();
+        second.dispatch({ changes: { from: 0, insert: 'unsigned ' } });
+        await settle();
+        expect(server.documents.get(documentUri)?.text).toBe('unsigned int x, y;');
+        const versions = changes().map(({ params }) => params.textDocument.version);
+        expect(versions).toEqual([1, 2, 3]);
+        expect(server.received.some(({ method }) => method === 'textDocument/didClose')).toBe(false);
+    });
+});
@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import { createEditor } from './helpers';
+
+describe('signature help', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    const type = (view: EditorView, text: string) => {
+        const pos = view.state.selection.main.head;
+        view.dispatch({ changes: { from: pos, insert: text }, selection: { anchor: pos + text.length }, userEvent: 'input.type' });
+    };
+
+    it('shows the signature with the active parameter while typing arguments', async () => {
+        const editor = await createEditor('f', {
+            capabilities: { signatureHelpProvider: { triggerCharacters: ['('], retriggerCharacters: [','] } },
+        });
+        view = editor.view;
+        const contexts: unknown[] = [];
+        editor.server.onRequest('textDocument/signatureHelp', ({ context }) => {
+            contexts.push(context);
+            return {
+                signatures: [{ label: 'f(int a, int b)', parameters: [{ label: 'int a' }, { label: 'int b' }] }],
+                activeParameter: view!.state.doc.toString().includes(',') ? 1 : 0,
+            };
+        });
+        view.dispatch({ selection: { anchor: 1 } });
+
+        type(view, '(');
+        const active = () => view!.dom.querySelector('.cm-lsp-signature-active-parameter')?.textContent;
+        await vi.waitUntil(() => active() === 'int a');
+        type(view, '1,');
+        await vi.waitUntil(() => active() === 'int b');
+        expect(contexts[0]).toMatchObject({ triggerKind: 2, triggerCharacter: '(', isRetrigger: false });
+        expect(contexts.at(-1)).toMatchObject({ triggerCharacter: ',', isRetrigger: true });
+    });
+
+    it('closes when the server has no signatures', async () => {
+        const editor = await createEditor('f', { capabilities: { signatureHelpProvider: { triggerCharacters: ['('] } } });
+        view = editor.view;
+        let signatures = [{ label: 'f()' }];
+        editor.server.onRequest('textDocument/signatureHelp', () => ({ signatures }));
+        view.dispatch({ selection: { anchor: 1 } });
+        type(view, '(');
+        await vi.waitUntil(() => view!.dom.querySelector('.cm-lsp-signature-help'));
+        signatures = [];
+        type(view, ')');
+        await vi.waitUntil(() => !view!.dom.querySelector('.cm-lsp-signature-help'));
+    });
+});
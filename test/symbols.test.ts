@@ -0,0 +1,92 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import type * as LSP from 'vscode-languageserver-protocol';
+import { documentSymbolsField, goToSymbol, requestDocumentSymbols } from '../src/index';
+import { createEditor, documentUri } from './helpers';
+
+describe('document symbols', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    const range = (line: number, from: number, toLine: number, to: number) => ({
+        start: { line, character: from },
+        end: { line: toLine, character: to },
+    });
+    // Symbols of `struct s {\n    int x;\n};`, seen after a one line prefix
+    const structSymbols = (): LSP.DocumentSymbol[] => [
+        { name: 'hidden', kind: 12, range: range(0, 0, 0, 6), selectionRange: range(0, 0, 0, 6) },
+        {
+            name: 's',
+            kind: 23,
+            range: range(1, 0, 3, 2),
+            selectionRange: range(1, 7, 1, 8),
+            children: [{ name: 'x', detail: 'int', kind: 8, range: range(2, 4, 2, 10), selectionRange: range(2, 8, 2, 9) }],
+        },
+    ];
+
+    it('builds the outline and keeps it up to date', async () => {
+        const editor = await createEditor('struct s {\n    int x;\n};', {
+            prefix: 'hidden\n',
+            capabilities: { documentSymbolProvider: true },
+            setup: (server) => server.onRequest('textDocument/documentSymbol', structSymbols),
+        });
+        view = editor.view;
+        expect(view.state.field(documentSymbolsField)).toBe(null);
+
+        const symbols = await requestDocumentSymbols(view);
+        expect(view.state.field(documentSymbolsField)).toBe(symbols);
+        // The symbol in the prefix is dropped
+        expect(symbols).toEqual([{
+            name: 's',
+            detail: undefined,
+            kind: 23,
+            range: { from: 0, to: 24 },
+            selectionRange: { from: 7, to: 8 },
+            children: [{
+                name: 'x',
+                detail: 'int',
+                kind: 8,
+                range: { from: 15, to: 21 },
+                selectionRange: { from: 19, to: 20 },
+                children: [],
+            }],
+        }]);
+
+        // Mapped through edits until the server answers again. Flat symbols
+        // in other documents are dropped.
+        editor.server.onRequest('textDocument/documentSymbol', (): LSP.SymbolInformation[] => [
+            { name: 'y', kind: 13, location: { uri: documentUri, range: range(2, 0, 2, 6) } },
+            { name: 'z', kind: 13, location: { uri: 'file:///other.c', range: range(2, 0, 2, 6) } },
+        ]);
+        view.dispatch({ changes: { from: 0, insert: '\n' } });
+        expect(view.state.field(documentSymbolsField)![0].range).toEqual({ from: 1, to: 25 });
+        await vi.waitUntil(() => view!.state.field(documentSymbolsField)![0].name === 'y');
+        expect(view.state.field(documentSymbolsField)).toEqual([{
+            name: 'y',
+            detail: undefined,
+            kind: 13,
+            range: { from: 1, to: 7 },
+            selectionRange: { from: 1, to: 7 },
+            children: [],
+        }]);
+    });
+
+    it('jumps to the symbol picked', async () => {
+        const editor = await createEditor('struct s {\n    int x;\n};', {
+            prefix: 'hidden\n',
+            capabilities: { documentSymbolProvider: true },
+            setup: (server) => server.onRequest('textDocument/documentSymbol', structSymbols),
+        });
+        view = editor.view;
+        goToSymbol(view);
+
+        const items = await vi.waitUntil(() => {
+            const items = view!.dom.querySelectorAll('.cm-lsp-picker-item');
+            return items.length ? [...items] : null;
+        });
+        expect(items.map((item) => item.firstChild?.textContent)).toEqual(['s', 'x']);
+        items[1].dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+        expect(view.state.selection.main).toMatchObject({ from: 19, to: 20 });
+    });
+});
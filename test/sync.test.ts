@@ -0,0 +1,52 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import type { EditorView } from '@codemirror/view';
+import { TextDocumentSyncKind } from 'vscode-languageserver-protocol';
+import { createEditor, documentUri } from './helpers';
+
+describe('document sync', () => {
+    let view: EditorView | null = null;
+    afterEach(() => view?.destroy());
+
+    it('opens the document with the prefix and suffix', async () => {
+        const editor = await createEditor('int x;', { prefix: '// a\n', suffix: '\n// b' });
+        view = editor.view;
+        expect(editor.server.documents.get(documentUri)?.text).toBe('// a\nint x;\n// b');
+    });
+
+    it('sends incremental changes in the order they were made', async () => {
+        const editor = await createEditor('one\ntwo\nthree', {
+            prefix: '// a\n',
+            suffix: '\n// b',
+            capabilities: { textDocumentSync: TextDocumentSyncKind.Incremental },
+        });
+        view = editor.view;
+        const changed = editor.server.waitFor('textDocument/didChange');
+        // Later edits refer to positions after the earlier ones
+        view.dispatch({ changes: { from: 0, insert: 'zero\n' } });
+        view.dispatch({ changes: { from: 9, to: 13, insert: '' } });
+        view.dispatch({ changes: [{ from: 5, to: 8, insert: 'ONE' }, { from: view.state.doc.length, insert: '\nfour' }] });
+        view.dispatch({ changes: { from: 0, to: 4, insert: 'ZERO' } });
+        const { contentChanges } = await changed;
+
+        expect(contentChanges.length).toBeGreaterThan(1);
+        expect(contentChanges.every((change) => 'range' in change)).toBe(true);
+        expect(view.state.doc.toString()).toBe('ZERO\nONE\nthree\nfour');
+        expect(editor.server.documents.get(documentUri)?.text).toBe('// a\nZERO\nONE\nthree\nfour\n// b');
+    });
+
+    it('sends the full text to servers without incremental sync', async () => {
+        const editor = await createEditor('one', {
+            prefix: '// a\n',
+            capabilities: { textDocumentSync: TextDocumentSyncKind.Full },
+        });
+        view = editor.view;
+        const changed = editor.server.waitFor('textDocument/didChange');
+        view.dispatch({ changes: { from: 3, insert: ' two' } });
+        view.dispatch({ changes: { from: 0, insert: 'zero ' } });
+        const { contentChanges, textDocument } = await changed;
+
+        expect(contentChanges).toEqual([{ text: '// a\nzero one two' }]);
+        expect(textDocument.version).toBe(1);
+    });
+});
@@ -0,0 +1,109 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    LanguageServerClient,
+    MessagePortTransport,
+    WebSocketMessageTransport,
+    WorkerTransport,
+} from '../src/index';
+import { MockLanguageServer } from '../src/testing';
+import { documentUri, settle } from './helpers';
+
+class FakeWorker extends EventTarget {
+    postMessage = vi.fn();
+    terminate = vi.fn();
+}
+
+class FakeSocket extends EventTarget {
+    static OPEN = 1;
+    static last: FakeSocket;
+    readyState = 0;
+    sent: string[] = [];
+
+    constructor(public url: string) {
+        super();
+        FakeSocket.last = this;
+    }
+
+    send(data: string) {
+        this.sent.push(data);
+    }
+
+    close() {
+        this.readyState = 3;
+        this.dispatchEvent(new Event('close'));
+    }
+}
+
+describe('transports', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('talks to a server over a message channel', async () => {
+        const { port1, port2 } = new MessageChannel();
+        const server = new MockLanguageServer(port2, { capabilities: { hoverProvider: true } });
+        const client = new LanguageServerClient({
+            transport: new MessagePortTransport(port1),
+            rootUri: 'file:///',
+            workspaceFolders: null,
+            documentUri,
+            languageId: 'c',
+            prefix: '',
+            suffix: '',
+        });
+        await vi.waitUntil(() => client.state === 'ready');
+        expect(client.capabilities).toEqual({ hoverProvider: true });
+
+        const exited = server.waitFor('exit');
+        await client.close();
+        await exited;
+        server.close();
+    });
+
+    it('terminates workers that crash and reports the dropped connection', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const worker = new FakeWorker();
+        const transport = new WorkerTransport(worker as unknown as Worker);
+        const dropped = vi.fn();
+        transport.onClose(dropped);
+        await transport.connect();
+
+        worker.dispatchEvent(new Event('error'));
+        expect(worker.terminate).toHaveBeenCalled();
+        expect(dropped).toHaveBeenCalledTimes(1);
+        expect(console.error).toHaveBeenCalled();
+        // Not a crash any more once closed
+        worker.dispatchEvent(new Event('messageerror'));
+        expect(dropped).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits for WebSockets to open and answers server requests as JSON', async () => {
+        vi.stubGlobal('WebSocket', FakeSocket);
+        const transport = new WebSocketMessageTransport('ws://localhost/server');
+        const socket = FakeSocket.last;
+        expect(socket.url).toBe('ws://localhost/server');
+
+        let connected = false;
+        transport.connect().then(() => (connected = true));
+        await settle();
+        expect(connected).toBe(false);
+        socket.readyState = FakeSocket.OPEN;
+        socket.dispatchEvent(new Event('open'));
+        await vi.waitUntil(() => connected);
+
+        const requests: unknown[] = [];
+        transport.onRequest((request) => requests.push(request));
+        const request = { jsonrpc: '2.0', id: 1, method: 'workspace/configuration', params: { items: [] } };
+        socket.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(request) }));
+        expect(requests).toEqual([request]);
+        transport.sendResponse({ jsonrpc: '2.0', id: 1, result: [] });
+        expect(socket.sent.map((data) => JSON.parse(data))).toEqual([{ jsonrpc: '2.0', id: 1, result: [] }]);
+
+        const dropped = vi.fn();
+        transport.onClose(dropped);
+        socket.close();
+        expect(dropped).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,219 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { forEachDiagnostic } from '@codemirror/lint';
+import { EditorView } from '@codemirror/view';
+import { TextDocumentSyncKind } from 'vscode-languageserver-protocol';
+import { didSaveDocument, VirtualDocument, willSaveDocument } from '../src/index';
+import { InMemoryTransport, MockLanguageServer } from '../src/testing';
+import type { VirtualRegion } from '../src/index';
+import { settle } from './helpers';
+
+const documentUri = 'file:///notebook.py';
+
+describe('VirtualDocument', () => {
+    let server: MockLanguageServer;
+    let notebook: VirtualDocument;
+    let views: EditorView[];
+
+    beforeEach(() => {
+        const transport = new InMemoryTransport();
+        server = new MockLanguageServer(transport.server, {
+            capabilities: {
+                textDocumentSync: {
+                    openClose: true,
+                    change: TextDocumentSyncKind.Incremental,
+                    willSave: true,
+                    save: { includeText: true },
+                },
+            },
+        });
+        notebook = new VirtualDocument({
+            transport,
+            rootUri: 'file:///',
+            workspaceFolders: null,
+            documentUri,
+            languageId: 'python',
+            prefix: '',
+            suffix: '',
+            changesDelay: 10,
+        });
+        views = [];
+    });
+
+    afterEach(() => {
+        for (const view of views) view.destroy();
+        notebook.client.close();
+    });
+
+    function show(region: VirtualRegion, doc: string) {
+        const view = new EditorView({ doc, parent: document.body, extensions: region.extension });
+        views.push(view);
+        return view;
+    }
+
+    const serverText = () => server.documents.get(documentUri)?.text;
+
+    it('joins the regions and their glue', async () => {
+        show(notebook.addRegion(), 'a = 1');
+        show(notebook.addRegion({ glue: '\n# cell\n' }), 'b = 2');
+        await settle();
+        expect(serverText()).toBe('a = 1\n# cell\nb = 2');
+        expect(notebook.text().toString()).toBe(serverText());
+    });
+
+    it('inserts regions at an index', async () => {
+        show(notebook.addRegion(), 'a = 1');
+        show(notebook.addRegion({ glue: '\n' }), 'c = 3');
+        await settle();
+        show(notebook.addRegion({ glue: '\n', index: 1 }), 'b = 2');
+        await settle();
+        expect(serverText()).toBe('a = 1\nb = 2\nc = 3');
+    });
+
+    it('removes regions', async () => {
+        show(notebook.addRegion(), 'a = 1');
+        const middle = notebook.addRegion({ glue: '\n' });
+        show(middle, 'b = 2');
+        show(notebook.addRegion({ glue: '\n' }), 'c = 3');
+        await settle();
+        notebook.removeRegion(middle);
+        await settle();
+        expect(serverText()).toBe('a = 1\nc = 3');
+    });
+
+    it('changes the glue', async () => {
+        show(notebook.addRegion(), 'a = 1');
+        const second = notebook.addRegion({ glue: '\n' });
+        show(second, 'b = 2');
+        await settle();
+        second.setGlue('\n\n# cell 2\n');
+        await settle();
+        expect(serverText()).toBe('a = 1\n\n# cell 2\nb = 2');
+    });
+
+    it('sends edits made in a region at its position in the document', async () => {
+        show(notebook.addRegion(), 'a = 1');
+        const view = show(notebook.addRegion({ glue: '\n' }), 'b = 2');
+        await settle();
+        const changed = server.waitFor('textDocument/didChange');
+        view.dispatch({ changes: { from: 5, insert: '\nc = 3' } });
+        const { contentChanges } = await changed;
+        expect(contentChanges).toEqual([
+            { range: { start: { line: 1, character: 5 }, end: { line: 1, character: 5 } }, text: '\nc = 3' },
+        ]);
+        expect(serverText()).toBe('a = 1\nb = 2\nc = 3');
+    });
+
+    it('shows diagnostics in the region they belong to', async () => {
+        const first = show(notebook.addRegion(), 'a = 1');
+        const second = show(notebook.addRegion({ glue: '\n# cell\n' }), 'b = 2');
+        await settle();
+        server.notify('textDocument/publishDiagnostics', {
+            uri: documentUri,
+            diagnostics: [
+                { range: { start: { line: 2, character: 4 }, end: { line: 2, character: 5 } }, message: 'two' },
+            ],
+        });
+        await settle();
+        const found = (view: EditorView) => {
+            const list: [number, number, string][] = [];
+            forEachDiagnostic(view.state, ({ message }, from, to) => list.push([from, to, message]));
+            return list;
+        };
+        expect(found(first)).toEqual([]);
+        expect(found(second)).toEqual([[4, 5, 'two']]);
+    });
+
+    it('applies workspace edits to the regions they fall in', async () => {
+        const first = show(notebook.addRegion(), 'a = 1');
+        const second = show(notebook.addRegion({ glue: '\n' }), 'b = 2');
+        await settle();
+        const edit = (line: number, newText: string) => ({
+            range: { start: { line, character: 0 }, end: { line, character: 1 } },
+            newText,
+        });
+        await server.request('workspace/applyEdit', { edit: { changes: { [documentUri]: [edit(0, 'x'), edit(1, 'y')] } } });
+        await settle();
+        expect(first.state.doc.toString()).toBe('x = 1');
+        expect(second.state.doc.toString()).toBe('y = 2');
+        expect(serverText()).toBe('x = 1\ny = 2');
+    });
+
+    it('gives positions where regions meet without glue to the earlier one', async () => {
+        const first = show(notebook.addRegion(), 'aa');
+        const second = show(notebook.addRegion(), 'bb');
+        await settle();
+        const at = { start: { line: 0, character: 2 }, end: { line: 0, character: 2 } };
+        server.notify('textDocument/publishDiagnostics', { uri: documentUri, diagnostics: [{ range: at, message: 'here' }] });
+        await server.request('workspace/applyEdit', { edit: { changes: { [documentUri]: [{ range: at, newText: 'X' }] } } });
+        await settle();
+        expect(first.state.doc.toString()).toBe('aaX');
+        expect(second.state.doc.toString()).toBe('bb');
+        expect(serverText()).toBe('aaXbb');
+        const count = (view: EditorView) => {
+            let found = 0;
+            forEachDiagnostic(view.state, () => found++);
+            return found;
+        };
+        expect([count(first), count(second)]).toEqual([1, 0]);
+    });
+
+    it('asks for the state of the whole document once for all regions', async () => {
+        const transport = new InMemoryTransport();
+        const server = new MockLanguageServer(transport.server, {
+            capabilities: {
+                textDocumentSync: TextDocumentSyncKind.Incremental,
+                foldingRangeProvider: true,
+                inlayHintProvider: true,
+                diagnosticProvider: { interFileDependencies: false, workspaceDiagnostics: false },
+            },
+        });
+        server.onRequest('textDocument/foldingRange', () => []);
+        server.onRequest('textDocument/inlayHint', () => []);
+        server.onRequest('textDocument/diagnostic', () => ({
+            kind: 'full' as const,
+            items: [{ range: { start: { line: 2, character: 0 }, end: { line: 2, character: 1 } }, message: 'c' }],
+        }));
+        const notebook = new VirtualDocument({
+            transport,
+            rootUri: 'file:///',
+            workspaceFolders: null,
+            documentUri,
+            languageId: 'python',
+            prefix: '',
+            suffix: '',
+            changesDelay: 10,
+            inlayHints: true,
+        });
+        const regions = ['a = 1', 'b = 2', 'c = 3'].map((doc, i) => show(notebook.addRegion({ glue: i ? '\n' : '' }), doc));
+        await settle();
+        server.received = [];
+        regions[0].dispatch({ changes: { from: 0, insert: '# one\n' } });
+        await settle(50);
+
+        const count = (method: string) => server.received.filter((message) => message.method === method).length;
+        expect(count('textDocument/didChange')).toBe(1);
+        expect(count('textDocument/foldingRange')).toBe(1);
+        expect(count('textDocument/inlayHint')).toBe(1);
+        expect(count('textDocument/diagnostic')).toBe(1);
+        const diagnostics = regions.map((view) => {
+            const messages: string[] = [];
+            forEachDiagnostic(view.state, ({ message }) => messages.push(message));
+            return messages;
+        });
+        expect(diagnostics).toEqual([[], ['c'], []]);
+        notebook.client.close();
+    });
+
+    it('saves the whole document once', async () => {
+        const first = show(notebook.addRegion(), 'a = 1');
+        show(notebook.addRegion({ glue: '\n' }), 'b = 2');
+        await settle();
+        const saved = server.waitFor('textDocument/didSave');
+        await willSaveDocument(first);
+        await didSaveDocument(first);
+        expect((await saved).text).toBe('a = 1\nb = 2');
+        expect(server.received.filter(({ method }) => method === 'textDocument/willSave')).toHaveLength(1);
+        expect(server.received.filter(({ method }) => method === 'textDocument/didSave')).toHaveLength(1);
+    });
+});